@@ -0,0 +1,218 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import Link from "next/link"
+import { format } from "date-fns"
+import { Bar, BarChart, CartesianGrid, Legend, Line, LineChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { ArrowLeft, Download, FileUp, Trash2 } from "lucide-react"
+import type { PostureSession } from "@/lib/session"
+import { deleteSession, listSessions, saveSession } from "@/lib/session-store"
+import { exportSessionsCsv, exportSessionsJson, parseSessionsJson } from "@/lib/session-export"
+import { downloadFile } from "@/lib/utils"
+import { aggregateSessions, POSTURE_LEVELS, sessionSummary, warningTypes, type StatsPeriod } from "@/lib/session-stats"
+
+const LEVEL_COLORS = {
+  Excellent: 'var(--secondary)',
+  Good: 'var(--chart-2)',
+  Fair: 'var(--accent)',
+  Poor: 'var(--destructive)',
+}
+const WARNING_COLORS = ['var(--chart-1)', 'var(--chart-3)', 'var(--chart-5)', 'var(--accent)', 'var(--destructive)']
+
+const formatDuration = (ms: number) => {
+  const minutes = Math.round(ms / 60000)
+  return minutes >= 60 ? `${Math.floor(minutes / 60)}h ${minutes % 60}m` : `${minutes}m`
+}
+
+export default function HistoryPage() {
+  const [sessions, setSessions] = useState<PostureSession[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [period, setPeriod] = useState<StatsPeriod>('day')
+  const [notice, setNotice] = useState<string | null>(null)
+  const importInputRef = useRef<HTMLInputElement>(null)
+
+  const load = async () => {
+    try {
+      setSessions(await listSessions())
+    } catch (e: any) {
+      setError(e?.message || 'Failed to load sessions')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    load()
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [])
+
+  const removeSession = async (id: string) => {
+    await deleteSession(id)
+    load()
+  }
+
+  const exportAs = (kind: 'csv' | 'json') => {
+    const stamp = format(Date.now(), 'yyyy-MM-dd')
+    if (kind === 'csv') downloadFile(`posture-sessions-${stamp}.csv`, exportSessionsCsv(sessions), 'text/csv')
+    else downloadFile(`posture-sessions-${stamp}.json`, exportSessionsJson(sessions))
+  }
+
+  // Imported sessions keep their ids, so re-importing the same file overwrites rather than duplicates
+  const onImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (!file) return
+    setError(null)
+    setNotice(null)
+    try {
+      const imported = parseSessionsJson(await file.text())
+      for (const session of imported) await saveSession(session)
+      setNotice(`Imported ${imported.length} session${imported.length === 1 ? '' : 's'}`)
+      load()
+    } catch (err: any) {
+      setError(err?.message || 'Import failed')
+    }
+  }
+
+  const stats = aggregateSessions(sessions, period)
+  const types = warningTypes(stats)
+  const minutesData = stats.map(s => ({ label: s.label, ...s.minutes }))
+  const warningData = stats.map(s => ({ label: s.label, ...s.warnings }))
+
+  return (
+    <div className="min-h-screen bg-background p-10 space-y-8">
+      <header className="max-w-5xl mx-auto flex items-center justify-between">
+        <div className="space-y-1">
+          <h1 className="text-3xl font-bold text-foreground">Session History</h1>
+          <p className="text-muted-foreground">Posture trends across your monitoring sessions</p>
+        </div>
+        <Button asChild variant="outline">
+          <Link href="/">
+            <ArrowLeft className="h-4 w-4" />
+            Back to monitor
+          </Link>
+        </Button>
+      </header>
+
+      <div className="max-w-5xl mx-auto flex gap-2 flex-wrap">
+        <Button onClick={() => setPeriod('day')} variant={period === 'day' ? 'default' : 'outline'} size="sm">Daily</Button>
+        <Button onClick={() => setPeriod('week')} variant={period === 'week' ? 'default' : 'outline'} size="sm">Weekly</Button>
+        <div className="ml-auto flex gap-2">
+          <Button onClick={() => exportAs('csv')} disabled={sessions.length === 0} variant="outline" size="sm">
+            <Download className="h-4 w-4" />
+            Export CSV
+          </Button>
+          <Button onClick={() => exportAs('json')} disabled={sessions.length === 0} variant="outline" size="sm">
+            <Download className="h-4 w-4" />
+            Export JSON
+          </Button>
+          <Button onClick={() => importInputRef.current?.click()} variant="outline" size="sm">
+            <FileUp className="h-4 w-4" />
+            Import JSON
+          </Button>
+          <input ref={importInputRef} type="file" accept=".json,application/json" className="hidden" onChange={onImportFile} />
+        </div>
+      </div>
+
+      {error && <p className="max-w-5xl mx-auto text-sm text-destructive">{error}</p>}
+      {notice && <p className="max-w-5xl mx-auto text-sm text-muted-foreground">{notice}</p>}
+      {!loading && sessions.length === 0 && !error && (
+        <p className="max-w-5xl mx-auto text-muted-foreground">No sessions recorded yet. Start detection on the monitor page to build your history.</p>
+      )}
+
+      {stats.length > 0 && (
+        <div className="max-w-5xl mx-auto grid gap-6 md:grid-cols-2">
+          <Card className="md:col-span-2">
+            <CardHeader>
+              <CardTitle>Average Score</CardTitle>
+            </CardHeader>
+            <CardContent className="h-64">
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={stats} margin={{ top: 8, right: 8, bottom: 0, left: -20 }}>
+                  <CartesianGrid strokeDasharray="3 3" className="stroke-border" />
+                  <XAxis dataKey="label" fontSize={12} />
+                  <YAxis domain={[0, 100]} fontSize={12} />
+                  <Tooltip formatter={(v: number) => [`${v}%`, 'Score']} />
+                  <Line type="monotone" dataKey="avgScore" stroke="var(--primary)" strokeWidth={2} connectNulls />
+                </LineChart>
+              </ResponsiveContainer>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Minutes per Posture State</CardTitle>
+            </CardHeader>
+            <CardContent className="h-64">
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart data={minutesData} margin={{ top: 8, right: 8, bottom: 0, left: -20 }}>
+                  <CartesianGrid strokeDasharray="3 3" className="stroke-border" />
+                  <XAxis dataKey="label" fontSize={12} />
+                  <YAxis fontSize={12} />
+                  <Tooltip />
+                  <Legend />
+                  {POSTURE_LEVELS.map(level => (
+                    <Bar key={level} dataKey={level} stackId="minutes" fill={LEVEL_COLORS[level]} />
+                  ))}
+                </BarChart>
+              </ResponsiveContainer>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Warnings</CardTitle>
+            </CardHeader>
+            <CardContent className="h-64">
+              {types.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No warnings in this range.</p>
+              ) : (
+                <ResponsiveContainer width="100%" height="100%">
+                  <BarChart data={warningData} margin={{ top: 8, right: 8, bottom: 0, left: -20 }}>
+                    <CartesianGrid strokeDasharray="3 3" className="stroke-border" />
+                    <XAxis dataKey="label" fontSize={12} />
+                    <YAxis allowDecimals={false} fontSize={12} />
+                    <Tooltip />
+                    <Legend />
+                    {types.map((type, i) => (
+                      <Bar key={type} dataKey={type} stackId="warnings" fill={WARNING_COLORS[i % WARNING_COLORS.length]} />
+                    ))}
+                  </BarChart>
+                </ResponsiveContainer>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      )}
+
+      {sessions.length > 0 && (
+        <Card className="max-w-5xl mx-auto">
+          <CardHeader>
+            <CardTitle>Sessions</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {[...sessions].reverse().map(s => {
+              const summary = sessionSummary(s)
+              return (
+                <div key={s.id} className="flex items-center justify-between text-sm border-b last:border-0 py-2">
+                  <span className="w-40">{format(s.startedAt, 'MMM d, HH:mm')}</span>
+                  <span className="w-20 tabular-nums">{formatDuration(summary.durationMs)}</span>
+                  <span className="w-24 tabular-nums">{summary.avgScore ?? '–'}% avg</span>
+                  <span className="w-28 tabular-nums">{summary.warningCount} warnings</span>
+                  <span className="w-32 tabular-nums">{summary.breaksTaken} breaks · {summary.breaksSkipped} skipped</span>
+                  <span className="w-32 tabular-nums">{formatDuration(summary.sittingMs)} sit · {formatDuration(summary.standingMs)} stand</span>
+                  <Button onClick={() => removeSession(s.id)} variant="ghost" size="icon" aria-label="Delete session">
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              )
+            })}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  )
+}
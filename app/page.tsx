@@ -1,21 +1,95 @@
 "use client"
 
 import { useState, useRef, useEffect } from "react"
+import Link from "next/link"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Slider } from "@/components/ui/slider"
-import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
 import { Badge } from "@/components/ui/badge"
-import { Play, Pause, Square, Camera, AlertTriangle, CheckCircle, Moon, Sun } from "lucide-react"
-import { usePostureMonitor } from "@/lib/posture"
+import { Play, Pause, Square, Camera, AlertTriangle, CheckCircle, Moon, Sun, Circle, FileUp, Film, History, UserX, BellOff, Coffee, StretchHorizontal } from "lucide-react"
+import { DEFAULT_ALERT_DELAYS, usePostureMonitor, WARNING_LABELS, type DetectorBackend, type OrientationSetting, type PostureRuleId, type SmoothingSettings, type Stance, type WarningSeverity } from "@/lib/posture"
+import { parseRecording, serializeRecording } from "@/lib/landmark-recording"
+import { downloadFile } from "@/lib/utils"
+import { VideoTimeline } from "@/components/video-timeline"
+import { PerformancePanel } from "@/components/performance-panel"
+import { AlertDelaySelect } from "@/components/alert-delay-select"
+import { AlertSettings } from "@/components/alert-settings"
+import { SoundSettings } from "@/components/sound-settings"
+import { useAlertSoundSettings } from "@/lib/alert-sound"
+import { BREAK_WARNING, DEFAULT_BREAK_SETTINGS, useBreakReminder, type BreakSettings } from "@/lib/break-reminder"
+import { DEFAULT_STRETCHES, useStretchRoutine } from "@/lib/stretch-routine"
+import { usePostureAlerts } from "@/lib/posture-alerts"
+import { DEFAULT_OVERLAY, type OverlayOptions } from "@/lib/pose-overlay"
+import { format } from "date-fns"
+import { DEFAULT_ESCALATION_POLICY, type EscalationPolicy } from "@/lib/alert-escalation"
+import { useSessionRecorder } from "@/lib/session"
+import { profileForDevice, useBaselineProfiles } from "@/lib/baseline-profiles"
+import { BaselineProfileManager } from "@/components/baseline-profile-manager"
+
+const ORIENTATION_LABELS: Record<OrientationSetting, string> = {
+  auto: 'Auto-detect placement',
+  left: 'Camera on my left',
+  right: 'Camera on my right',
+  front: 'Camera in front',
+}
+
+const STANCE_LABELS: Record<Stance, string> = {
+  sitting: 'Sitting',
+  standing: 'Standing',
+}
+
+const SUB_SCORE_LABELS: Record<PostureRuleId, string> = {
+  forward: 'Forward lean',
+  side: 'Side lean',
+  head: 'Head position',
+  distance: 'Screen distance',
+  height: 'Head height',
+}
+
+const SEVERITY_LABELS: Record<WarningSeverity, string> = {
+  mild: 'Mild',
+  moderate: 'Moderate',
+  severe: 'Severe',
+}
+
+const BREAK_INTERVAL_OPTIONS = [20, 30, 45, 50, 60, 90]
+
+const SMOOTHING_LABELS: Record<SmoothingSettings['type'], string> = {
+  'one-euro': 'One Euro smoothing',
+  exponential: 'Exponential smoothing',
+  none: 'No smoothing',
+}
+
+const DETECTOR_LABELS: Record<DetectorBackend | 'auto', string> = {
+  auto: 'Auto detector',
+  tasks: 'PoseLandmarker',
+  legacy: 'Legacy Pose',
+}
 
 export default function PostureMonitor() {
   const [isMonitoring, setIsMonitoring] = useState(false)
   const [isPaused, setIsPaused] = useState(false)
   const [postureScore, setPostureScore] = useState(85)
-  const [forwardThreshold, setForwardThreshold] = useState([100])
-  const [sideThreshold, setSideThreshold] = useState([100])
-  const [neckThreshold, setNeckThreshold] = useState([100])
+  // Separate rule sets for sitting and standing; the sliders edit the one picked in `ruleStance`
+  const [sensitivities, setSensitivities] = useState<Record<Stance, Record<PostureRuleId, number>>>({
+    sitting: { forward: 100, side: 100, head: 100, distance: 100, height: 100 },
+    standing: { forward: 100, side: 100, head: 100, distance: 100, height: 100 },
+  })
+  const [ruleStance, setRuleStance] = useState<Stance>('sitting')
+  const updateSensitivity = (rule: PostureRuleId) => ([value]: number[]) =>
+    setSensitivities(s => ({ ...s, [ruleStance]: { ...s[ruleStance], [rule]: value } }))
+  const forwardThreshold = [sensitivities[ruleStance].forward]
+  const sideThreshold = [sensitivities[ruleStance].side]
+  const neckThreshold = [sensitivities[ruleStance].head]
+  const distanceThreshold = [sensitivities[ruleStance].distance]
+  const heightThreshold = [sensitivities[ruleStance].height]
+  const setForwardThreshold = updateSensitivity('forward')
+  const setSideThreshold = updateSensitivity('side')
+  const setNeckThreshold = updateSensitivity('head')
+  const setDistanceThreshold = updateSensitivity('distance')
+  const setHeightThreshold = updateSensitivity('height')
+  const [alertDelays, setAlertDelays] = useState<Record<PostureRuleId, number>>(DEFAULT_ALERT_DELAYS)
   const videoRef = useRef<HTMLVideoElement>(null)
   const overlayRef = useRef<HTMLCanvasElement>(null)
   const [devices, setDevices] = useState<MediaDeviceInfo[]>([])
@@ -23,17 +97,149 @@ export default function PostureMonitor() {
   const [loadingDevices, setLoadingDevices] = useState(false)
   const [deviceError, setDeviceError] = useState<string | null>(null)
   const [audioEnabled, setAudioEnabled] = useState(true)
-  const lastSpokenRef = useRef<{ [k: string]: number }>({})
-  const SPEAK_COOLDOWN_MS = 5000
+  const [showPerformance, setShowPerformance] = useState(false)
+  const [overlayOptions, setOverlayOptions] = useState<OverlayOptions>(DEFAULT_OVERLAY)
+  const [escalationPolicy, setEscalationPolicy] = useState<EscalationPolicy>(DEFAULT_ESCALATION_POLICY)
   const [isDark, setIsDark] = useState(false)
+  const [orientation, setOrientation] = useState<OrientationSetting>('auto')
+  const [detector, setDetector] = useState<DetectorBackend | 'auto'>('auto')
+  const [smoothing, setSmoothing] = useState<SmoothingSettings['type']>('one-euro')
+  const replayInputRef = useRef<HTMLInputElement>(null)
+  const [sourceMode, setSourceMode] = useState<'camera' | 'file'>('camera')
+  const [videoFile, setVideoFile] = useState<File | null>(null)
+  const [videoUrl, setVideoUrl] = useState<string | null>(null)
+  const videoFileInputRef = useRef<HTMLInputElement>(null)
 
-  const { status, baselineSet, captureBaseline } = usePostureMonitor(
+  // Guided stretches offered when a break is due, tracked from the same landmarks as the posture checks
+  const [stretching, setStretching] = useState(false)
+  const {
+    stretchState,
+    handleLandmarks: handleStretchLandmarks,
+    skipExercise,
+    drawOverlay: drawStretchOverlay,
+  } = useStretchRoutine(stretching)
+
+  const {
+    status,
+    baselineSet,
+    baseline,
+    detectorBackend,
+    detectorInWorker,
+    telemetry,
+    error: monitorError,
+    setBaseline,
+    clearBaselines,
+    calibration,
+    startCalibration,
+    cancelCalibration,
+    isRecording,
+    startRecording,
+    stopRecording,
+    isReplaying,
+    replay,
+    stopReplay,
+    videoAnalysis,
+    analyzeFile,
+    cancelAnalysis,
+  } = usePostureMonitor(
     videoRef.current,
     isMonitoring,
     isPaused,
-    { overlayCanvas: overlayRef.current }
+    {
+      overlayCanvas: overlayRef.current,
+      sensitivity: sensitivities.sitting,
+      standingSensitivity: sensitivities.standing,
+      alertDelays,
+      orientation,
+      smoothing: { type: smoothing },
+      detector,
+      adaptModelComplexity: true,
+      onLandmarks: handleStretchLandmarks,
+      overlay: overlayOptions,
+      drawOverlayExtras: drawStretchOverlay,
+    }
   )
 
+  const isAway = status.presence === 'absent'
+  // Scoring pauses while nobody is detected, so the session only records frames with the user present
+  // Stretching moves the head and shoulders on purpose, so it is neither recorded nor alerted on
+  const { logBreak } = useSessionRecorder(isMonitoring, isPaused, status, { enabled: baselineSet && status.presence === 'present' && !stretching, baseline })
+
+  const [breakSettings, setBreakSettings] = useState<BreakSettings>(DEFAULT_BREAK_SETTINGS)
+  // Standing up counts as a break just like stepping away
+  const { breakState, skipBreak, completeBreak } = useBreakReminder(isMonitoring, isPaused, !isAway && status.stance === 'sitting', { settings: breakSettings, onBreak: logBreak })
+  const breakDue = breakState.phase === 'due'
+  // The stretches measure both sides of the body, which only a face-on camera sees
+  const canStretch = status.orientation === 'front'
+  // Alerts escalate and sound per warning label
+  const warningLabels = status.warnings.map(w => w.label)
+
+  // Finishing every stretch counts as the break
+  useEffect(() => {
+    if (stretchState?.phase !== 'done') return
+    setStretching(false)
+    completeBreak()
+  }, [stretchState?.phase, completeBreak])
+
+  useEffect(() => {
+    if (!isMonitoring) setStretching(false)
+  }, [isMonitoring])
+
+  const { settings: soundSettings, updateSettings: updateSoundSettings, voices } = useAlertSoundSettings()
+  const {
+    stages: alertStages,
+    snoozedUntil,
+    snooze,
+    unsnooze,
+    notificationPermission,
+    requestNotificationPermission,
+  } = usePostureAlerts(breakDue ? [...warningLabels, BREAK_WARNING] : warningLabels, {
+    enabled: (isMonitoring || isReplaying) && !isPaused && !stretching,
+    soundEnabled: audioEnabled,
+    policy: escalationPolicy,
+    sound: soundSettings,
+  })
+
+  const { profiles, createProfile, updateProfile, deleteProfile } = useBaselineProfiles()
+  const [activeProfileId, setActiveProfileId] = useState<string | null>(null)
+  const activeProfile = profiles.find(p => p.id === activeProfileId)
+
+  // Auto-select the profile captured on the chosen camera
+  useEffect(() => {
+    setActiveProfileId(profileForDevice(profiles, selectedDeviceId)?.id ?? null)
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [selectedDeviceId, profiles.length])
+
+  // Apply the active profile whenever detection starts or the selection changes. A profile holds one
+  // stance's baseline, so the other stance is cleared rather than kept from the previous profile
+  useEffect(() => {
+    if (!isMonitoring || !activeProfile) return
+    clearBaselines()
+    setBaseline(activeProfile.baseline)
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isMonitoring, activeProfileId])
+
+  const saveProfile = (name: string) => {
+    if (!baseline) return
+    const profile = createProfile(name, baseline, selectedDeviceId)
+    setActiveProfileId(profile.id)
+  }
+
+  // Recapture runs the guided calibration and stores the result once it succeeds
+  const recaptureProfileIdRef = useRef<string | null>(null)
+  const recaptureProfile = (id: string) => {
+    recaptureProfileIdRef.current = id
+    startCalibration()
+  }
+
+  useEffect(() => {
+    if (calibration?.phase === 'countdown' || calibration?.phase === 'collecting') return
+    const id = recaptureProfileIdRef.current
+    recaptureProfileIdRef.current = null
+    if (id && calibration?.baseline) updateProfile(id, { baseline: calibration.baseline, deviceId: selectedDeviceId })
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [calibration?.phase])
+
   useEffect(() => {
     if (typeof document === 'undefined') return
     const root = document.documentElement
@@ -73,6 +279,7 @@ export default function PostureMonitor() {
   }, [])
 
   useEffect(() => {
+    if (sourceMode !== 'camera') return
     if (videoRef.current && selectedDeviceId) {
       const streamVideo = async () => {
         try {
@@ -90,9 +297,10 @@ export default function PostureMonitor() {
 
       streamVideo()
     }
-  }, [selectedDeviceId, videoRef])
+  }, [selectedDeviceId, videoRef, sourceMode])
 
   const startMonitoring = async () => {
+    stopReplay()
     try {
       const constraints: MediaStreamConstraints = {
         video: selectedDeviceId ? { deviceId: { exact: selectedDeviceId } } : { facingMode: 'user' }
@@ -130,6 +338,63 @@ export default function PostureMonitor() {
     stopCurrentStream()
   }
 
+  const saveRecording = () => {
+    const rec = stopRecording()
+    if (!rec || rec.entries.length === 0) return
+    const stamp = rec.createdAt.replace(/[:.]/g, '-')
+    downloadFile(`posture-recording-${stamp}.ndjson`, serializeRecording(rec), 'application/x-ndjson')
+  }
+
+  const onReplayFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (!file) return
+    try {
+      setDeviceError(null)
+      replay(parseRecording(await file.text()))
+    } catch (err: any) {
+      setDeviceError(err?.message || 'Could not read recording')
+    }
+  }
+
+  const switchSource = (mode: 'camera' | 'file') => {
+    if (mode === sourceMode) return
+    if (mode === 'file') {
+      stopMonitoring()
+      stopReplay()
+    } else {
+      cancelAnalysis()
+      setVideoFile(null)
+    }
+    setSourceMode(mode)
+  }
+
+  useEffect(() => {
+    if (!videoFile) {
+      setVideoUrl(null)
+      return
+    }
+    const url = URL.createObjectURL(videoFile)
+    setVideoUrl(url)
+    return () => URL.revokeObjectURL(url)
+  }, [videoFile])
+
+  const onVideoFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (!file) return
+    cancelAnalysis()
+    stopCurrentStream()
+    setVideoFile(file)
+  }
+
+  const seekTo = (time: number) => {
+    const videoEl = videoRef.current
+    if (!videoEl) return
+    videoEl.pause()
+    videoEl.currentTime = time
+  }
+
   const getPostureStatus = () => {
     if (status.score >= 85) return { status: "Excellent", color: "bg-secondary", icon: CheckCircle }
     if (status.score >= 70) return { status: "Good", color: "bg-secondary/70", icon: CheckCircle }
@@ -157,30 +422,18 @@ export default function PostureMonitor() {
     switchStream()
   }, [selectedDeviceId, isMonitoring])
 
-  useEffect(() => {
-    if (!audioEnabled) return
-    if (!baselineSet) return
-    if (typeof window === 'undefined') return
-    const synth = window.speechSynthesis
-    if (!synth) return
-    status.warnings.forEach(w => {
-      const now = Date.now()
-      const last = lastSpokenRef.current[w] || 0
-      if (now - last < SPEAK_COOLDOWN_MS) return
-      lastSpokenRef.current[w] = now
-      const utter = new SpeechSynthesisUtterance(w.replace(/ detected/i, '').replace(/ posture/i,'').trim())
-      utter.rate = 1
-      utter.pitch = 1
-      synth.speak(utter)
-    })
-  }, [status.warnings, audioEnabled, baselineSet])
-
   return (
     <>
     <div className="min-h-screen bg-background p-10 space-y-10">
       <header className="text-center space-y-2">
         <h1 className="text-4xl font-bold text-foreground">Posture-Pal</h1>
         <p className="text-muted-foreground text-lg">Real-time sitting posture analysis and correction</p>
+        <Button asChild variant="link" size="sm">
+          <Link href="/history">
+            <History className="h-4 w-4" />
+            Session history
+          </Link>
+        </Button>
       </header>
 
       <div className="max-w-6xl mx-auto flex justify-center">
@@ -194,19 +447,62 @@ export default function PostureMonitor() {
             </CardHeader>
             <CardContent>
               <div className="relative aspect-video bg-muted rounded-lg overflow-hidden">
-                <video ref={videoRef} autoPlay playsInline muted className="w-full h-full object-cover" />
+                <video
+                  ref={videoRef}
+                  src={sourceMode === 'file' ? videoUrl ?? undefined : undefined}
+                  autoPlay={sourceMode === 'camera'}
+                  controls={sourceMode === 'file' && !!videoUrl}
+                  playsInline
+                  muted
+                  className={`w-full h-full ${sourceMode === 'file' ? 'object-contain' : 'object-cover'}`}
+                />
                 <canvas ref={overlayRef} className="absolute inset-0 w-full h-full pointer-events-none" />
-                {!isMonitoring && (
+                {!isMonitoring && !isReplaying && !videoUrl && (
                   <div className="absolute inset-0 flex items-center justify-center bg-muted/50">
-                    <p className="text-muted-foreground">Camera feed will appear here</p>
+                    <p className="text-muted-foreground">
+                      {sourceMode === 'file' ? 'Choose a video file to analyze' : 'Camera feed will appear here'}
+                    </p>
+                  </div>
+                )}
+                {calibration && (calibration.phase === 'countdown' || calibration.phase === 'collecting') && (
+                  <div className="absolute inset-0 flex flex-col items-center justify-center gap-3 bg-background/40 text-foreground">
+                    {calibration.phase === 'countdown' ? (
+                      <>
+                        <p className="text-lg font-medium">Sit up straight and face your usual position</p>
+                        <span className="text-6xl font-bold tabular-nums">{Math.ceil(calibration.remainingMs / 1000)}</span>
+                      </>
+                    ) : (
+                      <>
+                        <p className="text-lg font-medium">Hold still…</p>
+                        <div className="w-48 bg-muted rounded-full h-2">
+                          <div className="h-2 rounded-full bg-primary" style={{ width: `${Math.round(calibration.progress * 100)}%` }} />
+                        </div>
+                      </>
+                    )}
+                    <Button onClick={cancelCalibration} variant="outline" size="sm">Cancel</Button>
                   </div>
                 )}
-                {isMonitoring && baselineSet && (
+                {isReplaying && (
+                  <div className="absolute top-4 left-4">
+                    <Badge variant="secondary">Replaying recording</Badge>
+                  </div>
+                )}
+                {(isMonitoring || isReplaying) && baselineSet && (
                   <div className="absolute top-4 right-4 space-y-2">
-                    <Badge className={`${postureStatus.color} text-white`}>
-                      <StatusIcon className="h-4 w-4 mr-1" />
-                      {postureStatus.status}
-                    </Badge>
+                    {isAway ? (
+                      <Badge variant="secondary">
+                        <UserX className="h-4 w-4 mr-1" />
+                        Away
+                      </Badge>
+                    ) : (
+                      <Badge className={`${postureStatus.color} text-white`}>
+                        <StatusIcon className="h-4 w-4 mr-1" />
+                        {postureStatus.status}
+                      </Badge>
+                    )}
+                    {status.presence === 'partial' && (
+                      <Badge variant="outline" className="bg-background/80">Partially visible</Badge>
+                    )}
                   </div>
                 )}
               </div>
@@ -214,6 +510,23 @@ export default function PostureMonitor() {
           </Card>
 
           <div className="flex flex-col gap-4 w-80">
+            <Card>
+              <CardContent className="py-3">
+                <label className="flex items-center justify-between gap-2 text-sm">
+                  <span className="text-muted-foreground">Rules for</span>
+                  <select
+                    className="border rounded-md px-1.5 py-1 bg-background text-sm"
+                    value={ruleStance}
+                    onChange={e => setRuleStance(e.target.value as Stance)}
+                  >
+                    {(Object.keys(STANCE_LABELS) as Stance[]).map(s => (
+                      <option key={s} value={s}>{STANCE_LABELS[s]}{s === status.stance && isMonitoring ? ' (current)' : ''}</option>
+                    ))}
+                  </select>
+                </label>
+              </CardContent>
+            </Card>
+
             <Card>
               <CardHeader className="pb-2">
                 <div className="flex flex-col w-full">
@@ -234,6 +547,7 @@ export default function PostureMonitor() {
                   <span>Lenient</span>
                   <span>Strict</span>
                 </div>
+                <AlertDelaySelect value={alertDelays.forward} onChange={v => setAlertDelays(d => ({ ...d, forward: v }))} />
               </CardContent>
             </Card>
 
@@ -257,6 +571,7 @@ export default function PostureMonitor() {
                   <span>Lenient</span>
                   <span>Strict</span>
                 </div>
+                <AlertDelaySelect value={alertDelays.side} onChange={v => setAlertDelays(d => ({ ...d, side: v }))} />
               </CardContent>
             </Card>
 
@@ -280,6 +595,130 @@ export default function PostureMonitor() {
                   <span>Lenient</span>
                   <span>Strict</span>
                 </div>
+                <AlertDelaySelect value={alertDelays.head} onChange={v => setAlertDelays(d => ({ ...d, head: v }))} />
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader className="pb-2">
+                <div className="flex flex-col w-full">
+                  <CardTitle className="text-lg font-medium">Screen Distance</CardTitle>
+                  <span className="text-sm font-medium tabular-nums mt-1 self-end">{distanceThreshold[0]}%</span>
+                </div>
+              </CardHeader>
+              <CardContent className="pt-0">
+                <Slider
+                  value={distanceThreshold}
+                  onValueChange={setDistanceThreshold}
+                  max={100}
+                  min={0}
+                  step={5}
+                  className="w-full"
+                />
+                <div className="flex justify-between text-xs text-muted-foreground mt-2">
+                  <span>Lenient</span>
+                  <span>Strict</span>
+                </div>
+                <AlertDelaySelect value={alertDelays.distance} onChange={v => setAlertDelays(d => ({ ...d, distance: v }))} />
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader className="pb-2">
+                <div className="flex flex-col w-full">
+                  <CardTitle className="text-lg font-medium">Head Height</CardTitle>
+                  <span className="text-sm font-medium tabular-nums mt-1 self-end">{heightThreshold[0]}%</span>
+                </div>
+              </CardHeader>
+              <CardContent className="pt-0">
+                <Slider
+                  value={heightThreshold}
+                  onValueChange={setHeightThreshold}
+                  max={100}
+                  min={0}
+                  step={5}
+                  className="w-full"
+                />
+                <div className="flex justify-between text-xs text-muted-foreground mt-2">
+                  <span>Lenient</span>
+                  <span>Strict</span>
+                </div>
+                <AlertDelaySelect value={alertDelays.height} onChange={v => setAlertDelays(d => ({ ...d, height: v }))} />
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader className="pb-2">
+                <CardTitle className="text-lg font-medium">Alerts</CardTitle>
+              </CardHeader>
+              <CardContent className="pt-0">
+                <AlertSettings
+                  policy={escalationPolicy}
+                  onPolicyChange={setEscalationPolicy}
+                  permission={notificationPermission}
+                  onRequestPermission={requestNotificationPermission}
+                />
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader className="pb-2">
+                <CardTitle className="text-lg font-medium">Breaks</CardTitle>
+              </CardHeader>
+              <CardContent className="pt-0 space-y-2 text-sm">
+                <label className="flex items-center justify-between gap-2">
+                  <span className="text-muted-foreground">Remind me after</span>
+                  <select
+                    className="border rounded-md px-1.5 py-1 bg-background text-sm"
+                    value={breakSettings.intervalMin}
+                    onChange={e => setBreakSettings(s => ({ ...s, intervalMin: Number(e.target.value) }))}
+                  >
+                    {BREAK_INTERVAL_OPTIONS.map(m => (
+                      <option key={m} value={m}>{m} min sitting</option>
+                    ))}
+                  </select>
+                </label>
+                {isMonitoring && (
+                  <p className="text-muted-foreground">
+                    {breakState.phase === 'away'
+                      ? 'On a break'
+                      : `Seated for ${Math.floor(breakState.seatedMs / 60_000)} min`}
+                  </p>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader className="pb-2">
+                <CardTitle className="text-lg font-medium">Alert Sound</CardTitle>
+              </CardHeader>
+              <CardContent className="pt-0">
+                <SoundSettings
+                  settings={soundSettings}
+                  voices={voices}
+                  warningTypes={[...Object.values(WARNING_LABELS), BREAK_WARNING]}
+                  onChange={updateSoundSettings}
+                />
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader className="pb-2">
+                <CardTitle className="text-lg font-medium">Baseline Profile</CardTitle>
+              </CardHeader>
+              <CardContent className="pt-0">
+                <BaselineProfileManager
+                  profiles={profiles}
+                  activeProfileId={activeProfileId}
+                  deviceId={selectedDeviceId}
+                  canCapture={isMonitoring}
+                  hasBaseline={!!baseline}
+                  onSelect={setActiveProfileId}
+                  onSaveNew={saveProfile}
+                  onRename={(id, name) => updateProfile(id, { name })}
+                  onRecapture={recaptureProfile}
+                  onDelete={deleteProfile}
+                />
               </CardContent>
             </Card>
           </div>
@@ -288,6 +727,17 @@ export default function PostureMonitor() {
 
       {/* Control Buttons */}
       <div className="flex flex-col items-center gap-3">
+        <div className="flex gap-2 items-center">
+          <Button onClick={() => switchSource('camera')} variant={sourceMode === 'camera' ? 'default' : 'outline'} size="sm">
+            <Camera className="h-4 w-4" />
+            Live camera
+          </Button>
+          <Button onClick={() => switchSource('file')} variant={sourceMode === 'file' ? 'default' : 'outline'} size="sm">
+            <Film className="h-4 w-4" />
+            Video file
+          </Button>
+        </div>
+        {sourceMode === 'camera' ? (
         <div className="flex gap-2 items-center flex-wrap justify-center">
           {/* select camera */}
           <select
@@ -301,6 +751,40 @@ export default function PostureMonitor() {
               <option key={d.deviceId} value={d.deviceId}>{d.label || `Camera ${d.deviceId.slice(0,6)}`}</option>
             ))}
           </select>
+          {/* camera placement */}
+          <select
+            className="border rounded-md px-2 py-2.5 bg-background text-sm"
+            value={orientation}
+            onChange={e => setOrientation(e.target.value as OrientationSetting)}
+            aria-label="Camera placement"
+          >
+            {Object.entries(ORIENTATION_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>{label}</option>
+            ))}
+          </select>
+          {/* landmark smoothing */}
+          <select
+            className="border rounded-md px-2 py-2.5 bg-background text-sm"
+            value={smoothing}
+            onChange={e => setSmoothing(e.target.value as SmoothingSettings['type'])}
+            aria-label="Landmark smoothing"
+          >
+            {Object.entries(SMOOTHING_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>{label}</option>
+            ))}
+          </select>
+          {/* pose detector backend */}
+          <select
+            className="border rounded-md px-2 py-2.5 bg-background text-sm"
+            value={detector}
+            onChange={e => setDetector(e.target.value as DetectorBackend | 'auto')}
+            disabled={isMonitoring}
+            aria-label="Pose detector"
+          >
+            {Object.entries(DETECTOR_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>{label}</option>
+            ))}
+          </select>
           {!isMonitoring ? (
             <Button onClick={startMonitoring} size="lg" className="gap-2">
               <Play className="h-5 w-5" />
@@ -316,35 +800,202 @@ export default function PostureMonitor() {
                 <Square className="h-5 w-5" />
                 End Detection
               </Button>
-              <Button onClick={captureBaseline} size="lg" className="gap-2">
+              <Button
+                onClick={() => startCalibration()}
+                disabled={calibration?.phase === 'countdown' || calibration?.phase === 'collecting'}
+                size="lg"
+                className="gap-2"
+              >
                 <Camera className="h-5 w-5" />
                 Capture Baseline
               </Button>
             </>
           )}
         </div>
+        ) : (
+        <div className="flex gap-2 items-center flex-wrap justify-center">
+          <Button onClick={() => videoFileInputRef.current?.click()} variant="outline" size="lg" className="gap-2">
+            <FileUp className="h-5 w-5" />
+            {videoFile ? 'Choose another video' : 'Choose video'}
+          </Button>
+          <input ref={videoFileInputRef} type="file" accept="video/*" className="hidden" onChange={onVideoFile} />
+          {videoAnalysis?.running ? (
+            <Button onClick={cancelAnalysis} variant="destructive" size="lg" className="gap-2">
+              <Square className="h-5 w-5" />
+              Cancel ({Math.round(videoAnalysis.progress * 100)}%)
+            </Button>
+          ) : (
+            <Button onClick={() => videoFile && analyzeFile(videoFile)} disabled={!videoFile} size="lg" className="gap-2">
+              <Play className="h-5 w-5" />
+              Analyze Video
+            </Button>
+          )}
+        </div>
+        )}
+        {sourceMode === 'file' && videoAnalysis?.error && <p className="text-sm text-destructive">{videoAnalysis.error}</p>}
         {deviceError && <p className="text-sm text-destructive">{deviceError}</p>}
+        {calibration?.phase === 'failed' && (
+          <p className="text-sm text-destructive">Calibration failed: {calibration.error}</p>
+        )}
+        {calibration?.phase === 'done' && calibration.quality && (
+          <p className="text-sm text-muted-foreground">
+            {calibration.baseline ? STANCE_LABELS[calibration.baseline.stance ?? 'sitting'] : 'Baseline'} baseline calibrated from {calibration.quality.frames} frames · quality {calibration.quality.rating}
+            {calibration.quality.rejected > 0 && ` · ${calibration.quality.rejected} frames rejected`}
+          </p>
+        )}
+        {isMonitoring && !baselineSet && status.stance === 'standing' && calibration?.phase !== 'countdown' && calibration?.phase !== 'collecting' && (
+          <p className="text-sm text-muted-foreground">Standing detected — capture a baseline while standing to check posture in this stance too.</p>
+        )}
         <div className="flex items-center gap-2 text-sm mt-2">
           <input id="audio-toggle" type="checkbox" className="accent-primary" checked={audioEnabled} onChange={e=>setAudioEnabled(e.target.checked)} />
           <label htmlFor="audio-toggle" className="cursor-pointer select-none">Sound alerts</label>
+          <input id="perf-toggle" type="checkbox" className="accent-primary ml-4" checked={showPerformance} onChange={e=>setShowPerformance(e.target.checked)} />
+          <label htmlFor="perf-toggle" className="cursor-pointer select-none">Performance panel</label>
+        </div>
+        <div className="flex items-center gap-2 text-sm">
+          <input id="highlights-toggle" type="checkbox" className="accent-primary" checked={overlayOptions.highlights} onChange={e=>setOverlayOptions(o => ({ ...o, highlights: e.target.checked }))} />
+          <label htmlFor="highlights-toggle" className="cursor-pointer select-none">Colour segments</label>
+          <input id="ghost-toggle" type="checkbox" className="accent-primary ml-4" checked={overlayOptions.ghost} onChange={e=>setOverlayOptions(o => ({ ...o, ghost: e.target.checked }))} />
+          <label htmlFor="ghost-toggle" className="cursor-pointer select-none">Baseline ghost</label>
+          <input id="values-toggle" type="checkbox" className="accent-primary ml-4" checked={overlayOptions.values} onChange={e=>setOverlayOptions(o => ({ ...o, values: e.target.checked }))} />
+          <label htmlFor="values-toggle" className="cursor-pointer select-none">Live values</label>
+        </div>
+        <div className="flex items-center gap-2">
+          {isMonitoring && (
+            isRecording ? (
+              <Button onClick={saveRecording} variant="outline" size="sm">
+                <Square className="h-4 w-4" />
+                Stop &amp; save recording
+              </Button>
+            ) : (
+              <Button onClick={startRecording} variant="outline" size="sm">
+                <Circle className="h-4 w-4 text-destructive" />
+                Record landmarks
+              </Button>
+            )
+          )}
+          {isReplaying ? (
+            <Button onClick={stopReplay} variant="outline" size="sm">
+              <Square className="h-4 w-4" />
+              Stop replay
+            </Button>
+          ) : !isMonitoring && sourceMode === 'camera' && (
+            <Button onClick={() => replayInputRef.current?.click()} variant="outline" size="sm">
+              <FileUp className="h-4 w-4" />
+              Replay recording
+            </Button>
+          )}
+          <input ref={replayInputRef} type="file" accept=".ndjson,.jsonl" className="hidden" onChange={onReplayFile} />
         </div>
       </div>
 
+      {/* Video file timeline */}
+      {sourceMode === 'file' && videoAnalysis && videoAnalysis.points.length > 0 && (
+        <Card className="max-w-4xl mx-auto">
+          <CardHeader>
+            <CardTitle>Clip Timeline</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <VideoTimeline points={videoAnalysis.points} duration={videoAnalysis.duration} onSeek={seekTo} />
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Detector load failure */}
+      {monitorError && (
+        <div className="max-w-4xl mx-auto">
+          <Alert variant="destructive">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertTitle>Pose detector unavailable</AlertTitle>
+            <AlertDescription>
+              {monitorError}. Run <code>npm run assets</code> to copy the MediaPipe files into <code>public/mediapipe</code>, or check NEXT_PUBLIC_MEDIAPIPE_ASSET_BASE.
+            </AlertDescription>
+          </Alert>
+        </div>
+      )}
+
       {/* Warnings Section */}
-      {status.warnings.length > 0 && (
+      {(status.warnings.length > 0 || breakDue || stretching || snoozedUntil) && (
         <div className="max-w-4xl mx-auto space-y-3">
           {/* <h3 className="text-lg font-semibold text-foreground">Posture Alerts</h3> */}
-          {status.warnings.map((warning, index) => (
-            <Alert key={index} variant="destructive">
+          {breakDue && !stretching && (
+            <Alert>
+              <Coffee className="h-4 w-4" />
+              <AlertTitle>{BREAK_WARNING}</AlertTitle>
+              <AlertDescription className="flex items-center justify-between gap-2">
+                You have been sitting for {Math.round(breakState.seatedMs / 60_000)} minutes. Stand up or step away for a minute{canStretch ? ', or stretch at your desk' : ''}.
+                <span className="flex gap-2">
+                  {canStretch && (
+                    <Button onClick={() => setStretching(true)} variant="outline" size="sm">
+                      <StretchHorizontal className="h-4 w-4" />
+                      Stretch
+                    </Button>
+                  )}
+                  <Button onClick={skipBreak} variant="outline" size="sm">Skip</Button>
+                </span>
+              </AlertDescription>
+            </Alert>
+          )}
+          {stretching && stretchState?.exercise && (
+            <Alert>
+              <StretchHorizontal className="h-4 w-4" />
+              <AlertTitle>
+                {stretchState.exercise.name} · exercise {stretchState.exerciseIndex + 1} of {DEFAULT_STRETCHES.length}
+              </AlertTitle>
+              <AlertDescription className="flex items-center justify-between gap-2">
+                {stretchState.exercise.instruction} Hold for {stretchState.exercise.holdS} s, {stretchState.exercise.reps} {stretchState.exercise.reps === 1 ? 'time' : 'times'}.
+                <span className="flex gap-2">
+                  <Button onClick={skipExercise} variant="outline" size="sm">Next</Button>
+                  <Button onClick={() => setStretching(false)} variant="outline" size="sm">Stop</Button>
+                </span>
+              </AlertDescription>
+            </Alert>
+          )}
+          {!stretching && status.warnings.map(warning => (
+            <Alert key={warning.ruleId} variant="destructive">
               <AlertTriangle className="h-4 w-4" />
-              <AlertDescription>{warning}</AlertDescription>
+              <AlertDescription className="flex items-center justify-between gap-2">
+                <span>
+                  {warning.label}
+                  <span className="text-muted-foreground"> · {SEVERITY_LABELS[warning.severity]} · since {format(warning.since, 'HH:mm:ss')}</span>
+                </span>
+                {alertStages[warning.label] && alertStages[warning.label] !== 'badge' && (
+                  <Badge variant="outline">{alertStages[warning.label] === 'sound' ? 'Sound alert' : 'Notified'}</Badge>
+                )}
+              </AlertDescription>
             </Alert>
           ))}
+          <div className="flex items-center justify-end gap-2 text-sm text-muted-foreground">
+            {snoozedUntil ? (
+              <>
+                <span>Alerts snoozed until {format(snoozedUntil, 'HH:mm')}</span>
+                <Button onClick={unsnooze} variant="outline" size="sm">Resume alerts</Button>
+              </>
+            ) : (
+              <>
+                <BellOff className="h-4 w-4" />
+                <Button onClick={() => snooze(10)} variant="outline" size="sm">Snooze 10 min</Button>
+                <Button onClick={() => snooze(30)} variant="outline" size="sm">Snooze 30 min</Button>
+              </>
+            )}
+          </div>
         </div>
       )}
 
+      {/* Performance debug panel */}
+      {showPerformance && (
+        <Card className="max-w-2xl mx-auto">
+          <CardHeader>
+            <CardTitle>Performance</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <PerformancePanel telemetry={telemetry} inWorker={detectorInWorker} />
+          </CardContent>
+        </Card>
+      )}
+
       {/* Status Dashboard */}
-      {isMonitoring && baselineSet && (
+      {(isMonitoring || isReplaying) && baselineSet && (
         <Card className="max-w-2xl mx-auto">
           <CardHeader>
             <CardTitle>Monitoring Status</CardTitle>
@@ -352,7 +1003,24 @@ export default function PostureMonitor() {
           <CardContent className="space-y-4">
             <div className="flex items-center justify-between">
               <span>Detection Status:</span>
-              <Badge variant={isPaused ? "secondary" : "default"}>{isPaused ? "Paused" : "Active"}</Badge>
+              <Badge variant={isPaused ? "secondary" : "default"}>{isReplaying ? "Replay" : isPaused ? "Paused" : isAway ? "Away" : "Active"}</Badge>
+            </div>
+            {detectorBackend && (
+              <div className="flex items-center justify-between">
+                <span>Pose Detector:</span>
+                <span className="text-sm">{DETECTOR_LABELS[detectorBackend]}{detectorInWorker && ' (worker)'}</span>
+              </div>
+            )}
+            <div className="flex items-center justify-between">
+              <span>Camera Placement:</span>
+              <span className="text-sm">
+                {ORIENTATION_LABELS[baseline?.orientation ?? status.orientation]}
+                {orientation === 'auto' && ' (detected)'}
+              </span>
+            </div>
+            <div className="flex items-center justify-between">
+              <span>Stance:</span>
+              <span className="text-sm">{STANCE_LABELS[status.stance]}</span>
             </div>
             <div className="flex items-center justify-between">
               <span>Overall Posture Score:</span>
@@ -366,6 +1034,22 @@ export default function PostureMonitor() {
                 style={{ width: `${status.score}%` }}
               />
             </div>
+            <div className="space-y-2 pt-2">
+              {(Object.keys(SUB_SCORE_LABELS) as PostureRuleId[]).map(id => (
+                <div key={id} className="flex items-center gap-3 text-sm">
+                  <span className="w-28 text-muted-foreground">{SUB_SCORE_LABELS[id]}</span>
+                  <div className="flex-1 bg-muted rounded-full h-2">
+                    <div
+                      className={`h-2 rounded-full transition-all duration-500 ${
+                        status.subScores[id] >= 70 ? "bg-secondary" : status.subScores[id] >= 50 ? "bg-accent" : "bg-destructive"
+                      }`}
+                      style={{ width: `${status.subScores[id]}%` }}
+                    />
+                  </div>
+                  <span className="w-10 text-right tabular-nums">{status.subScores[id]}</span>
+                </div>
+              ))}
+            </div>
           </CardContent>
         </Card>
       )}
@@ -0,0 +1,26 @@
+"use client"
+
+// Seconds of bad posture before a warning fires
+const ALERT_DELAY_OPTIONS = [1, 3, 5, 10, 20, 30, 60, 120]
+
+type Props = {
+  value: number
+  onChange: (seconds: number) => void
+}
+
+export function AlertDelaySelect({ value, onChange }: Props) {
+  return (
+    <label className="flex items-center justify-between text-xs text-muted-foreground mt-3">
+      <span>Warn after</span>
+      <select
+        className="border rounded-md px-1.5 py-1 bg-background text-xs"
+        value={value}
+        onChange={e => onChange(Number(e.target.value))}
+      >
+        {ALERT_DELAY_OPTIONS.map(s => (
+          <option key={s} value={s}>{s} s</option>
+        ))}
+      </select>
+    </label>
+  )
+}
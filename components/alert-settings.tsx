@@ -0,0 +1,66 @@
+"use client"
+
+import { Button } from "@/components/ui/button"
+import { Bell, BellOff } from "lucide-react"
+import type { EscalationPolicy } from "@/lib/alert-escalation"
+import type { NotificationPermissionState } from "@/lib/posture-alerts"
+
+const SECONDS_OPTIONS = [0, 5, 10, 20, 30, 60, 120, 300]
+
+type Props = {
+  policy: EscalationPolicy
+  onPolicyChange: (policy: EscalationPolicy) => void
+  permission: NotificationPermissionState
+  onRequestPermission: () => void
+}
+
+const formatSeconds = (s: number) => (s === 0 ? 'immediately' : s < 60 ? `${s} s` : `${s / 60} min`)
+
+function SecondsSelect({ label, value, onChange, options = SECONDS_OPTIONS }: {
+  label: string
+  value: number
+  onChange: (s: number) => void
+  options?: number[]
+}) {
+  return (
+    <label className="flex items-center justify-between gap-2 text-sm">
+      <span className="text-muted-foreground">{label}</span>
+      <select
+        className="border rounded-md px-1.5 py-1 bg-background text-sm"
+        value={value}
+        onChange={e => onChange(Number(e.target.value))}
+      >
+        {options.map(s => (
+          <option key={s} value={s}>{formatSeconds(s)}</option>
+        ))}
+      </select>
+    </label>
+  )
+}
+
+export function AlertSettings({ policy, onPolicyChange, permission, onRequestPermission }: Props) {
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between gap-2 text-sm">
+        <span>Desktop notifications</span>
+        {permission === 'granted' ? (
+          <span className="flex items-center gap-1 text-muted-foreground"><Bell className="h-4 w-4" /> On</span>
+        ) : permission === 'denied' ? (
+          <span className="flex items-center gap-1 text-muted-foreground" title="Allow notifications for this site in the browser settings">
+            <BellOff className="h-4 w-4" /> Blocked
+          </span>
+        ) : permission === 'unsupported' ? (
+          <span className="text-muted-foreground">Not supported</span>
+        ) : (
+          <Button onClick={onRequestPermission} variant="outline" size="sm">
+            <Bell className="h-4 w-4" />
+            Enable
+          </Button>
+        )}
+      </div>
+      <SecondsSelect label="Notify after" value={policy.notifyAfterS} onChange={s => onPolicyChange({ ...policy, notifyAfterS: s })} />
+      <SecondsSelect label="Sound after" value={policy.soundAfterS} onChange={s => onPolicyChange({ ...policy, soundAfterS: s })} />
+      <SecondsSelect label="Repeat at most every" value={policy.cooldownS} onChange={s => onPolicyChange({ ...policy, cooldownS: s })} options={SECONDS_OPTIONS.filter(s => s > 0)} />
+    </div>
+  )
+}
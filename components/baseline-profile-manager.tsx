@@ -0,0 +1,87 @@
+"use client"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Camera, Pencil, Save, Trash2 } from "lucide-react"
+import type { BaselineProfile } from "@/lib/baseline-profiles"
+
+type Props = {
+  profiles: BaselineProfile[]
+  activeProfileId: string | null
+  deviceId?: string
+  canCapture: boolean
+  hasBaseline: boolean
+  onSelect: (id: string | null) => void
+  onSaveNew: (name: string) => void
+  onRename: (id: string, name: string) => void
+  onRecapture: (id: string) => void
+  onDelete: (id: string) => void
+}
+
+export function BaselineProfileManager({
+  profiles,
+  activeProfileId,
+  deviceId,
+  canCapture,
+  hasBaseline,
+  onSelect,
+  onSaveNew,
+  onRename,
+  onRecapture,
+  onDelete,
+}: Props) {
+  const [name, setName] = useState('')
+  const active = profiles.find(p => p.id === activeProfileId)
+
+  return (
+    <div className="space-y-3">
+      <select
+        className="w-full border rounded-md px-2 py-2 bg-background text-sm"
+        value={activeProfileId ?? ''}
+        onChange={e => onSelect(e.target.value || null)}
+      >
+        <option value="">No profile</option>
+        {profiles.map(p => (
+          <option key={p.id} value={p.id}>
+            {p.name}{deviceId && p.deviceId === deviceId ? ' (this camera)' : ''}
+          </option>
+        ))}
+      </select>
+      <input
+        className="w-full border rounded-md px-2 py-1.5 bg-background text-sm"
+        placeholder="Profile name, e.g. home desk"
+        value={name}
+        onChange={e => setName(e.target.value)}
+      />
+      <div className="grid grid-cols-2 gap-2">
+        <Button
+          onClick={() => { onSaveNew(name); setName('') }}
+          disabled={!hasBaseline || !name.trim()}
+          variant="outline"
+          size="sm"
+          title={hasBaseline ? undefined : 'Capture a baseline first'}
+        >
+          <Save className="h-4 w-4" />
+          Save new
+        </Button>
+        <Button
+          onClick={() => { if (active) { onRename(active.id, name.trim()); setName('') } }}
+          disabled={!active || !name.trim()}
+          variant="outline"
+          size="sm"
+        >
+          <Pencil className="h-4 w-4" />
+          Rename
+        </Button>
+        <Button onClick={() => active && onRecapture(active.id)} disabled={!active || !canCapture} variant="outline" size="sm">
+          <Camera className="h-4 w-4" />
+          Recapture
+        </Button>
+        <Button onClick={() => active && onDelete(active.id)} disabled={!active} variant="outline" size="sm">
+          <Trash2 className="h-4 w-4" />
+          Delete
+        </Button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,34 @@
+"use client"
+
+import type { PerformanceTelemetry } from "@/lib/frame-rate"
+
+type Props = {
+  telemetry: PerformanceTelemetry | null
+  inWorker: boolean
+}
+
+const COMPLEXITY_LABELS = ['lite', 'full', 'heavy']
+
+export function PerformancePanel({ telemetry, inWorker }: Props) {
+  if (!telemetry) {
+    return <p className="text-sm text-muted-foreground">Start monitoring to collect performance data.</p>
+  }
+  const rows: [string, string][] = [
+    ['Achieved FPS', telemetry.fps.toFixed(1)],
+    ['Capture rate', `${telemetry.targetFps} / ${telemetry.maxFps} fps${telemetry.onBattery ? ' (battery cap)' : ''}`],
+    ['Latency', `${Math.round(telemetry.latencyMs)} ms avg · ${Math.round(telemetry.lastLatencyMs)} ms last`],
+    ['Inference', `${Math.round(telemetry.inferenceMs)} ms${inWorker ? ' (worker)' : ' (main thread)'}`],
+    ['Dropped frames', String(telemetry.droppedFrames)],
+    ['Model', telemetry.modelComplexity === null ? 'fixed' : COMPLEXITY_LABELS[telemetry.modelComplexity]],
+  ]
+  return (
+    <dl className="grid grid-cols-2 gap-x-4 gap-y-1 text-sm font-mono">
+      {rows.map(([label, value]) => (
+        <div key={label} className="contents">
+          <dt className="text-muted-foreground">{label}</dt>
+          <dd className="text-right tabular-nums">{value}</dd>
+        </div>
+      ))}
+    </dl>
+  )
+}
@@ -0,0 +1,75 @@
+"use client"
+
+import { Button } from "@/components/ui/button"
+import { Slider } from "@/components/ui/slider"
+import { Volume2 } from "lucide-react"
+import { defaultPhrase, playAlertSound, type AlertSoundSettings } from "@/lib/alert-sound"
+
+type Props = {
+  settings: AlertSoundSettings
+  voices: SpeechSynthesisVoice[]
+  warningTypes: string[]
+  onChange: (patch: Partial<AlertSoundSettings>) => void
+}
+
+export function SoundSettings({ settings, voices, warningTypes, onChange }: Props) {
+  const isVoice = settings.mode === 'voice'
+
+  return (
+    <div className="space-y-3 text-sm">
+      <select
+        className="w-full border rounded-md px-2 py-2 bg-background text-sm"
+        value={settings.mode}
+        onChange={e => onChange({ mode: e.target.value as AlertSoundSettings['mode'] })}
+        aria-label="Alert sound"
+      >
+        <option value="voice">Spoken phrase</option>
+        <option value="chime">Chime</option>
+      </select>
+      {isVoice && (
+        <select
+          className="w-full border rounded-md px-2 py-2 bg-background text-sm"
+          value={settings.voiceURI ?? ''}
+          onChange={e => onChange({ voiceURI: e.target.value || null })}
+          aria-label="Voice"
+        >
+          <option value="">Default voice</option>
+          {voices.map(v => (
+            <option key={v.voiceURI} value={v.voiceURI}>{v.name} ({v.lang})</option>
+          ))}
+        </select>
+      )}
+      {isVoice && (
+        <div className="space-y-1">
+          <div className="flex justify-between text-muted-foreground">
+            <span>Rate</span>
+            <span className="tabular-nums">{settings.rate.toFixed(1)}×</span>
+          </div>
+          <Slider value={[settings.rate]} onValueChange={([rate]) => onChange({ rate })} min={0.5} max={2} step={0.1} />
+        </div>
+      )}
+      <div className="space-y-1">
+        <div className="flex justify-between text-muted-foreground">
+          <span>Volume</span>
+          <span className="tabular-nums">{Math.round(settings.volume * 100)}%</span>
+        </div>
+        <Slider value={[settings.volume]} onValueChange={([volume]) => onChange({ volume })} min={0} max={1} step={0.05} />
+      </div>
+      {isVoice && warningTypes.map(type => (
+        <label key={type} className="block space-y-1">
+          <span className="text-muted-foreground">{type}</span>
+          <input
+            className="w-full border rounded-md px-2 py-1.5 bg-background text-sm"
+            placeholder={defaultPhrase(type)}
+            value={settings.phrases[type] ?? ''}
+            onChange={e => onChange({ phrases: { ...settings.phrases, [type]: e.target.value } })}
+          />
+        </label>
+      ))}
+      <Button onClick={() => playAlertSound(warningTypes[0] ?? '', settings)} variant="outline" size="sm" className="w-full">
+        <Volume2 className="h-4 w-4" />
+        Test alert
+      </Button>
+    </div>
+  )
+}
@@ -0,0 +1,61 @@
+"use client"
+
+import { CartesianGrid, Line, LineChart, ReferenceArea, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts"
+import { Button } from "@/components/ui/button"
+import { AlertTriangle } from "lucide-react"
+import { flaggedMoments, formatClipTime, type TimelinePoint } from "@/lib/video-analysis"
+
+type Props = {
+  points: TimelinePoint[]
+  duration: number
+  onSeek: (time: number) => void
+}
+
+export function VideoTimeline({ points, duration, onSeek }: Props) {
+  const moments = flaggedMoments(points)
+
+  return (
+    <div className="space-y-4">
+      <div className="h-48 w-full">
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart
+            data={points}
+            onClick={(e: any) => { if (typeof e?.activeLabel === 'number') onSeek(e.activeLabel) }}
+            margin={{ top: 8, right: 8, bottom: 0, left: -20 }}
+          >
+            <CartesianGrid strokeDasharray="3 3" className="stroke-border" />
+            <XAxis
+              dataKey="time"
+              type="number"
+              domain={[0, Math.max(duration, 1)]}
+              tickFormatter={formatClipTime}
+              fontSize={12}
+            />
+            <YAxis domain={[0, 100]} fontSize={12} />
+            <Tooltip
+              labelFormatter={(t: number) => formatClipTime(t)}
+              formatter={(v: number) => [`${v}%`, 'Score']}
+            />
+            {moments.map(m => (
+              <ReferenceArea key={m.time} x1={m.time} x2={Math.max(m.end, m.time + 0.1)} fill="var(--destructive)" fillOpacity={0.2} />
+            ))}
+            <Line type="monotone" dataKey="score" stroke="var(--primary)" dot={false} isAnimationActive={false} />
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+
+      {moments.length > 0 ? (
+        <div className="flex flex-wrap gap-2">
+          {moments.map(m => (
+            <Button key={m.time} variant="outline" size="sm" onClick={() => onSeek(m.time)}>
+              <AlertTriangle className="h-4 w-4 text-destructive" />
+              {formatClipTime(m.time)} · {m.warnings.map(w => w.replace(/ detected/i, '')).join(', ')}
+            </Button>
+          ))}
+        </div>
+      ) : (
+        <p className="text-sm text-muted-foreground">No warnings flagged in this clip.</p>
+      )}
+    </div>
+  )
+}
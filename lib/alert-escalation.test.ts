@@ -0,0 +1,78 @@
+import { describe, expect, it } from "vitest"
+import { AlertEscalator } from "@/lib/alert-escalation"
+
+const FORWARD = 'Forward lean detected'
+const SIDE = 'Side lean detected'
+const S = 1000
+
+// Ticks once a second from `from` to `to` seconds with the same warnings; returns every action
+function tick(escalator: AlertEscalator, warnings: string[], from: number, to: number) {
+  const actions = []
+  for (let t = from; t <= to; t++) actions.push(...escalator.update(warnings, t * S).map(a => ({ ...a, t })))
+  return actions
+}
+
+describe("AlertEscalator", () => {
+  it("shows a badge first, then notifies, then sounds", () => {
+    const escalator = new AlertEscalator({ notifyAfterS: 10, soundAfterS: 30, cooldownS: 60 })
+    expect(tick(escalator, [FORWARD], 0, 9)).toEqual([])
+    expect(escalator.stages(9 * S)).toEqual({ [FORWARD]: 'badge' })
+    expect(tick(escalator, [FORWARD], 10, 40)).toEqual([
+      { warning: FORWARD, stage: 'notification', t: 10 },
+      { warning: FORWARD, stage: 'sound', t: 30 },
+    ])
+    expect(escalator.stages(40 * S)).toEqual({ [FORWARD]: 'sound' })
+  })
+
+  it("repeats a stage only after its cooldown", () => {
+    const escalator = new AlertEscalator({ notifyAfterS: 0, soundAfterS: 1000, cooldownS: 60 })
+    expect(tick(escalator, [FORWARD], 0, 130).map(a => a.t)).toEqual([0, 60, 120])
+  })
+
+  it("uses per-warning cooldown overrides", () => {
+    const escalator = new AlertEscalator({ notifyAfterS: 0, soundAfterS: 1000, cooldownS: 60, cooldowns: { [SIDE]: 10 } })
+    const actions = tick(escalator, [FORWARD, SIDE], 0, 30)
+    expect(actions.filter(a => a.warning === FORWARD).map(a => a.t)).toEqual([0])
+    expect(actions.filter(a => a.warning === SIDE).map(a => a.t)).toEqual([0, 10, 20, 30])
+  })
+
+  it("restarts a cleared warning from the badge but keeps its cooldown", () => {
+    const escalator = new AlertEscalator({ notifyAfterS: 5, soundAfterS: 1000, cooldownS: 60 })
+    expect(tick(escalator, [FORWARD], 0, 5)).toHaveLength(1)
+    tick(escalator, [], 6, 6)
+    expect(escalator.stages(6 * S)).toEqual({})
+
+    // Active again from 7 s: back at the badge, and due at 12 s but still cooling down until 65 s
+    expect(tick(escalator, [FORWARD], 7, 64)).toEqual([])
+    expect(escalator.stages(20 * S)).toEqual({ [FORWARD]: 'notification' })
+    expect(tick(escalator, [FORWARD], 65, 65)).toEqual([{ warning: FORWARD, stage: 'notification', t: 65 }])
+  })
+
+  it("keeps a flapping warning at the badge stage", () => {
+    const escalator = new AlertEscalator({ notifyAfterS: 5, soundAfterS: 30, cooldownS: 60 })
+    for (let t = 0; t < 60; t++) expect(escalator.update(t % 4 === 3 ? [] : [FORWARD], t * S)).toEqual([])
+  })
+
+  it("holds everything back while snoozed, then escalates as if it had not been", () => {
+    const escalator = new AlertEscalator({ notifyAfterS: 5, soundAfterS: 30, cooldownS: 60 })
+    escalator.snooze(40 * S, 0)
+    expect(tick(escalator, [FORWARD], 0, 39)).toEqual([])
+    expect(escalator.stages(39 * S)).toEqual({ [FORWARD]: 'sound' })
+    expect(escalator.snoozedUntil).toBe(40 * S)
+
+    expect(tick(escalator, [FORWARD], 40, 40)).toEqual([{ warning: FORWARD, stage: 'sound', t: 40 }])
+    expect(escalator.snoozedUntil).toBeNull()
+  })
+
+  it("can be unsnoozed early and reset", () => {
+    const escalator = new AlertEscalator({ notifyAfterS: 0, soundAfterS: 1000, cooldownS: 60 })
+    escalator.snooze(60 * S, 0)
+    expect(escalator.update([FORWARD], 0)).toEqual([])
+    escalator.unsnooze()
+    expect(escalator.update([FORWARD], S)).toHaveLength(1)
+
+    escalator.reset()
+    expect(escalator.stages(S)).toEqual({})
+    expect(escalator.update([FORWARD], 2 * S)).toHaveLength(1)
+  })
+})
@@ -0,0 +1,111 @@
+// Escalation policy for posture warnings: a warning first shows as a badge on the page,
+// becomes a desktop notification if it persists, then a sound / voice alert. Each warning
+// type has its own cooldown so a persistent or flapping warning does not nag continuously.
+
+export type EscalationStage = 'badge' | 'notification' | 'sound'
+
+export type EscalationPolicy = {
+  notifyAfterS: number // warning active this long → notification
+  soundAfterS: number // warning active this long → sound / voice
+  cooldownS: number // minimum gap between repeats of the same stage for one warning type
+  cooldowns?: Record<string, number> // per warning type overrides of `cooldownS`
+}
+
+export const DEFAULT_ESCALATION_POLICY: EscalationPolicy = {
+  notifyAfterS: 10,
+  soundAfterS: 30,
+  cooldownS: 60,
+}
+
+export type EscalationAction = {
+  warning: string
+  stage: Exclude<EscalationStage, 'badge'>
+}
+
+type WarningState = {
+  since: number | null // when the warning became active, null while inactive
+  lastFired: Partial<Record<EscalationAction['stage'], number>>
+}
+
+const STAGE_ORDER: EscalationStage[] = ['badge', 'notification', 'sound']
+
+export class AlertEscalator {
+  private states = new Map<string, WarningState>()
+  private snoozedUntilValue: number | null = null
+
+  constructor(private policy: EscalationPolicy = DEFAULT_ESCALATION_POLICY) {}
+
+  setPolicy(policy: EscalationPolicy) {
+    this.policy = policy
+  }
+
+  get snoozedUntil() {
+    return this.snoozedUntilValue
+  }
+
+  // While snoozed, warnings still show as badges but never escalate further
+  snooze(ms: number, now: number) {
+    this.snoozedUntilValue = now + ms
+  }
+
+  unsnooze() {
+    this.snoozedUntilValue = null
+  }
+
+  // Highest stage each active warning has reached
+  stages(now: number): Record<string, EscalationStage> {
+    const stages: Record<string, EscalationStage> = {}
+    this.states.forEach((state, warning) => {
+      if (state.since !== null) stages[warning] = this.stageFor(now - state.since)
+    })
+    return stages
+  }
+
+  /**
+   * Call with the currently active warnings, at least once a second while any are active.
+   * Returns the notifications / sounds that are due now.
+   */
+  update(warnings: string[], now: number): EscalationAction[] {
+    const active = new Set(warnings)
+    // Cleared warnings restart from the badge stage next time, but keep their cooldowns
+    this.states.forEach((state, warning) => { if (!active.has(warning)) state.since = null })
+
+    if (this.snoozedUntilValue !== null && now >= this.snoozedUntilValue) this.snoozedUntilValue = null
+    const snoozed = this.snoozedUntilValue !== null
+
+    const actions: EscalationAction[] = []
+    active.forEach(warning => {
+      let state = this.states.get(warning)
+      if (!state) {
+        state = { since: null, lastFired: {} }
+        this.states.set(warning, state)
+      }
+      if (state.since === null) state.since = now
+      if (snoozed) return
+
+      const stage = this.stageFor(now - state.since)
+      if (stage === 'badge') return
+      const last = state.lastFired[stage]
+      if (last !== undefined && now - last < this.cooldownMs(warning)) return
+      state.lastFired[stage] = now
+      actions.push({ warning, stage })
+    })
+    return actions
+  }
+
+  reset() {
+    this.states.clear()
+    this.snoozedUntilValue = null
+  }
+
+  private stageFor(activeMs: number): EscalationStage {
+    const seconds = activeMs / 1000
+    if (seconds >= this.policy.soundAfterS) return 'sound'
+    if (seconds >= this.policy.notifyAfterS) return 'notification'
+    return STAGE_ORDER[0]
+  }
+
+  private cooldownMs(warning: string) {
+    return (this.policy.cooldowns?.[warning] ?? this.policy.cooldownS) * 1000
+  }
+}
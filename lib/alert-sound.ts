@@ -0,0 +1,117 @@
+"use client"
+
+// Sound for the last escalation stage: either a spoken phrase (speechSynthesis) or a
+// chime synthesised with Web Audio, so no audio files need to be shipped.
+
+import { useCallback, useEffect, useState } from "react"
+
+export type AlertSoundSettings = {
+  mode: 'voice' | 'chime'
+  voiceURI: string | null // null = browser default voice
+  rate: number // 0.5–2
+  volume: number // 0–1
+  phrases: Record<string, string> // spoken text per warning type; missing/empty uses the default
+}
+
+export const DEFAULT_ALERT_SOUND: AlertSoundSettings = {
+  mode: 'voice',
+  voiceURI: null,
+  rate: 1,
+  volume: 1,
+  phrases: {},
+}
+
+const STORAGE_KEY = 'posture-pal:alert-sound'
+
+// "Forward lean detected" → "Forward lean"
+export const defaultPhrase = (warning: string) =>
+  warning.replace(/ detected/i, '').replace(/ posture/i, '').trim()
+
+export const phraseFor = (warning: string, settings: AlertSoundSettings) =>
+  settings.phrases[warning]?.trim() || defaultPhrase(warning)
+
+let audioContext: AudioContext | null = null
+
+// Two short descending tones with a soft attack and decay
+export function playChime(volume: number) {
+  const Ctx = window.AudioContext ?? (window as any).webkitAudioContext
+  if (!Ctx) return
+  audioContext ??= new Ctx()
+  const ctx = audioContext
+  if (ctx.state === 'suspended') ctx.resume().catch(() => {})
+  const start = ctx.currentTime
+  ;[880, 660].forEach((freq, i) => {
+    const t = start + i * 0.22
+    const osc = ctx.createOscillator()
+    const gain = ctx.createGain()
+    osc.type = 'sine'
+    osc.frequency.value = freq
+    gain.gain.setValueAtTime(0, t)
+    gain.gain.linearRampToValueAtTime(0.4 * volume, t + 0.02)
+    gain.gain.exponentialRampToValueAtTime(0.001, t + 0.4)
+    osc.connect(gain).connect(ctx.destination)
+    osc.start(t)
+    osc.stop(t + 0.42)
+  })
+}
+
+export function speakPhrase(text: string, settings: AlertSoundSettings) {
+  const synth = window.speechSynthesis
+  if (!synth) return
+  const utter = new SpeechSynthesisUtterance(text)
+  const voice = settings.voiceURI ? synth.getVoices().find(v => v.voiceURI === settings.voiceURI) : undefined
+  if (voice) utter.voice = voice
+  utter.rate = settings.rate
+  utter.volume = settings.volume
+  utter.pitch = 1
+  synth.speak(utter)
+}
+
+export function playAlertSound(warning: string, settings: AlertSoundSettings) {
+  if (settings.mode === 'chime') playChime(settings.volume)
+  else speakPhrase(phraseFor(warning, settings), settings)
+}
+
+function loadSettings(): AlertSoundSettings {
+  if (typeof localStorage === 'undefined') return DEFAULT_ALERT_SOUND
+  try {
+    const parsed = JSON.parse(localStorage.getItem(STORAGE_KEY) || 'null')
+    return parsed && typeof parsed === 'object' ? { ...DEFAULT_ALERT_SOUND, ...parsed } : DEFAULT_ALERT_SOUND
+  } catch {
+    return DEFAULT_ALERT_SOUND
+  }
+}
+
+/**
+ * Hook: useAlertSoundSettings
+ * Sound settings persisted in localStorage, plus the voices the browser offers
+ * (which load asynchronously in most browsers).
+ */
+export function useAlertSoundSettings() {
+  const [settings, setSettings] = useState<AlertSoundSettings>(DEFAULT_ALERT_SOUND)
+  const [voices, setVoices] = useState<SpeechSynthesisVoice[]>([])
+
+  useEffect(() => {
+    setSettings(loadSettings())
+    const synth = typeof window !== 'undefined' ? window.speechSynthesis : undefined
+    if (!synth) return
+    const update = () => setVoices(synth.getVoices())
+    update()
+    synth.addEventListener('voiceschanged', update)
+    return () => synth.removeEventListener('voiceschanged', update)
+  }, [])
+
+  const updateSettings = useCallback((patch: Partial<AlertSoundSettings>) => {
+    setSettings(prev => {
+      const next = { ...prev, ...patch }
+      try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(next))
+      } catch (e) {
+        console.warn('Failed to save sound settings', e)
+      }
+      return next
+    })
+  }, [])
+
+  return { settings, updateSettings, voices }
+}
@@ -0,0 +1,86 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import type { PostureBaseline } from "@/lib/posture-engine"
+
+// Named baselines saved in localStorage, tied to the camera they were captured on
+export type BaselineProfile = {
+  id: string
+  name: string
+  deviceId?: string
+  baseline: PostureBaseline
+  createdAt: number
+  updatedAt: number
+}
+
+const STORAGE_KEY = 'posture-pal:baseline-profiles'
+
+export function loadProfiles(): BaselineProfile[] {
+  if (typeof localStorage === 'undefined') return []
+  try {
+    const parsed = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]')
+    return Array.isArray(parsed) ? parsed : []
+  } catch {
+    return []
+  }
+}
+
+function storeProfiles(profiles: BaselineProfile[]) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(profiles))
+  } catch (e) {
+    console.warn('Failed to save baseline profiles', e)
+  }
+}
+
+// Most recently updated profile captured on the given camera
+export function profileForDevice(profiles: BaselineProfile[], deviceId: string | undefined) {
+  if (!deviceId) return undefined
+  return profiles
+    .filter(p => p.deviceId === deviceId)
+    .sort((a, b) => b.updatedAt - a.updatedAt)[0]
+}
+
+/**
+ * Hook: useBaselineProfiles
+ * CRUD over the stored profiles; every change is written straight back to localStorage.
+ */
+export function useBaselineProfiles() {
+  const [profiles, setProfiles] = useState<BaselineProfile[]>([])
+
+  useEffect(() => {
+    setProfiles(loadProfiles())
+  }, [])
+
+  const mutate = useCallback((fn: (prev: BaselineProfile[]) => BaselineProfile[]) => {
+    setProfiles(prev => {
+      const next = fn(prev)
+      storeProfiles(next)
+      return next
+    })
+  }, [])
+
+  const createProfile = useCallback((name: string, baseline: PostureBaseline, deviceId?: string) => {
+    const now = Date.now()
+    const profile: BaselineProfile = {
+      id: typeof crypto !== 'undefined' && crypto.randomUUID ? crypto.randomUUID() : `${now}-${Math.random().toString(36).slice(2)}`,
+      name: name.trim() || 'Untitled',
+      deviceId,
+      baseline: { ...baseline },
+      createdAt: now,
+      updatedAt: now,
+    }
+    mutate(prev => [...prev, profile])
+    return profile
+  }, [mutate])
+
+  const updateProfile = useCallback((id: string, patch: Partial<Pick<BaselineProfile, 'name' | 'baseline' | 'deviceId'>>) => {
+    mutate(prev => prev.map(p => (p.id === id ? { ...p, ...patch, updatedAt: Date.now() } : p)))
+  }, [mutate])
+
+  const deleteProfile = useCallback((id: string) => {
+    mutate(prev => prev.filter(p => p.id !== id))
+  }, [mutate])
+
+  return { profiles, createProfile, updateProfile, deleteProfile }
+}
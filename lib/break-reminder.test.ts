@@ -0,0 +1,87 @@
+import { describe, expect, it } from "vitest"
+import { BreakTracker } from "@/lib/break-reminder"
+
+const S = 1000
+const SETTINGS = { intervalMin: 1, minBreakS: 10 }
+
+// One update per second from `from` to `to` seconds; returns the events
+function tick(tracker: BreakTracker, seated: boolean, from: number, to: number) {
+  const events = []
+  for (let t = from; t <= to; t++) {
+    const event = tracker.update(seated, t * S)
+    if (event) events.push(event)
+  }
+  return events
+}
+
+describe("BreakTracker", () => {
+  it("makes a break due after the interval of continuous sitting", () => {
+    const tracker = new BreakTracker(SETTINGS)
+    tick(tracker, true, 0, 59)
+    expect(tracker.state(59 * S)).toMatchObject({ phase: 'sitting', seatedMs: 59 * S })
+    tick(tracker, true, 60, 60)
+    expect(tracker.state(60 * S)).toMatchObject({ phase: 'due', dueSince: 60 * S })
+  })
+
+  it("counts time away only once it is long enough", () => {
+    const tracker = new BreakTracker(SETTINGS)
+    tick(tracker, true, 0, 30)
+    // 9 s away is not a break: the sitting stretch carries on
+    expect(tick(tracker, false, 31, 39)).toEqual([])
+    tick(tracker, true, 40, 40)
+    expect(tracker.state(40 * S).seatedMs).toBe(40 * S)
+
+    expect(tick(tracker, false, 41, 60)).toEqual([{ t: 41 * S, taken: true, prompted: false }])
+    expect(tracker.state(60 * S)).toMatchObject({ phase: 'away', seatedMs: 0 })
+
+    // Back at the desk: a new stretch starts
+    tick(tracker, true, 61, 61)
+    expect(tracker.state(61 * S)).toMatchObject({ phase: 'sitting', seatedMs: 0 })
+  })
+
+  it("marks a break taken while it was due as prompted", () => {
+    const tracker = new BreakTracker(SETTINGS)
+    tick(tracker, true, 0, 70)
+    expect(tick(tracker, false, 71, 90)).toEqual([{ t: 71 * S, taken: true, prompted: true }])
+  })
+
+  it("logs an unanswered reminder as skipped and reminds again", () => {
+    const tracker = new BreakTracker(SETTINGS)
+    expect(tick(tracker, true, 0, 120)).toEqual([{ t: 60 * S, taken: false, prompted: true }])
+    expect(tracker.state(120 * S)).toMatchObject({ phase: 'due', dueSince: 120 * S })
+  })
+
+  it("does not count a pause in updates as sitting", () => {
+    const tracker = new BreakTracker(SETTINGS)
+    tick(tracker, true, 0, 30)
+    // No updates for 10 minutes (monitoring paused), then sitting again
+    tick(tracker, true, 630, 650)
+    expect(tracker.state(650 * S)).toMatchObject({ phase: 'sitting', seatedMs: 50 * S })
+  })
+
+  it("restarts the interval when a due reminder is skipped", () => {
+    const tracker = new BreakTracker(SETTINGS)
+    expect(tracker.skip(0)).toBeNull()
+    tick(tracker, true, 0, 65)
+    expect(tracker.skip(65 * S)).toEqual({ t: 60 * S, taken: false, prompted: true })
+    tick(tracker, true, 66, 124)
+    expect(tracker.state(124 * S).phase).toBe('sitting')
+    tick(tracker, true, 125, 125)
+    expect(tracker.state(125 * S).phase).toBe('due')
+  })
+
+  it("counts a completed break at the desk", () => {
+    const tracker = new BreakTracker(SETTINGS)
+    expect(tracker.complete(0)).toEqual({ t: 0, taken: true, prompted: false })
+    tick(tracker, true, 0, 70)
+    expect(tracker.complete(71 * S)).toEqual({ t: 60 * S, taken: true, prompted: true })
+    expect(tracker.state(71 * S)).toMatchObject({ phase: 'sitting', seatedMs: 0 })
+  })
+
+  it("forgets everything on reset", () => {
+    const tracker = new BreakTracker(SETTINGS)
+    tick(tracker, true, 0, 70)
+    tracker.reset()
+    expect(tracker.state(71 * S)).toEqual({ phase: 'sitting', seatedMs: 0, dueSince: null })
+  })
+})
@@ -0,0 +1,179 @@
+"use client"
+
+// Break reminders from continuous seated time. "Seated" comes from the pose stream: the
+// user counts as away once they have left the frame (or, with stance detection, stood up)
+// for long enough, which ends the sitting stretch and counts as a break.
+
+import { useCallback, useEffect, useRef, useState } from "react"
+import type { BreakEvent } from "@/lib/session"
+
+export type BreakSettings = {
+  intervalMin: number // seated time before a break is due
+  minBreakS: number // time away that counts as a break
+}
+
+export const DEFAULT_BREAK_SETTINGS: BreakSettings = {
+  intervalMin: 50,
+  minBreakS: 60,
+}
+
+// Shown and escalated like a posture warning while a break is due
+export const BREAK_WARNING = 'Time for a break'
+
+export type BreakPhase = 'sitting' | 'due' | 'away'
+
+export type BreakState = {
+  phase: BreakPhase
+  seatedMs: number // current continuous sitting stretch
+  dueSince: number | null
+}
+
+// Updates further apart than this (pause, stalled detection) are not counted as seated time
+const MAX_UPDATE_GAP_MS = 5000
+const TICK_MS = 1000
+const INITIAL_STATE: BreakState = { phase: 'sitting', seatedMs: 0, dueSince: null }
+
+export class BreakTracker {
+  private seatedSince: number | null = null
+  private awaySince: number | null = null
+  private dueSince: number | null = null
+  private lastUpdate: number | null = null
+  private breakCounted = false
+
+  constructor(private settings: BreakSettings = DEFAULT_BREAK_SETTINGS) {}
+
+  setSettings(settings: BreakSettings) {
+    this.settings = settings
+  }
+
+  /**
+   * Call about once a second with whether the user is currently seated at the desk.
+   * Returns a break event when one is taken or a due reminder goes unanswered.
+   */
+  update(seated: boolean, now: number): BreakEvent | null {
+    const gap = this.lastUpdate === null ? 0 : now - this.lastUpdate
+    this.lastUpdate = now
+    // Do not count a pause as sitting: shift the stretch forward by the gap
+    if (gap > MAX_UPDATE_GAP_MS && this.seatedSince !== null) {
+      this.seatedSince += gap
+      if (this.dueSince !== null) this.dueSince += gap
+    }
+
+    if (!seated) {
+      this.awaySince ??= now
+      if (this.breakCounted || now - this.awaySince < this.settings.minBreakS * 1000) return null
+      // Long enough away: the sitting stretch is over
+      this.breakCounted = true
+      const prompted = this.dueSince !== null
+      this.seatedSince = null
+      this.dueSince = null
+      return { t: this.awaySince, taken: true, prompted }
+    }
+
+    this.awaySince = null
+    this.breakCounted = false
+    this.seatedSince ??= now
+    const intervalMs = this.settings.intervalMin * 60_000
+    if (this.dueSince === null) {
+      if (now - this.seatedSince >= intervalMs) this.dueSince = now
+      return null
+    }
+    // Still sitting a whole interval after the reminder: log it as skipped and remind again
+    if (now - this.dueSince >= intervalMs) {
+      const event = { t: this.dueSince, taken: false, prompted: true }
+      this.dueSince = now
+      return event
+    }
+    return null
+  }
+
+  // User dismissed the reminder without moving; the next one comes a full interval later
+  skip(now: number): BreakEvent | null {
+    if (this.dueSince === null) return null
+    const event = { t: this.dueSince, taken: false, prompted: true }
+    this.dueSince = null
+    this.seatedSince = now
+    return event
+  }
+
+  // Break taken without leaving the desk (e.g. the guided stretches); counts like stepping away
+  complete(now: number): BreakEvent {
+    const event = { t: this.dueSince ?? now, taken: true, prompted: this.dueSince !== null }
+    this.dueSince = null
+    this.seatedSince = now
+    return event
+  }
+
+  state(now: number): BreakState {
+    return {
+      phase: this.breakCounted ? 'away' : this.dueSince !== null ? 'due' : 'sitting',
+      seatedMs: this.seatedSince !== null && !this.breakCounted ? now - this.seatedSince : 0,
+      dueSince: this.dueSince,
+    }
+  }
+
+  reset() {
+    this.seatedSince = null
+    this.awaySince = null
+    this.dueSince = null
+    this.lastUpdate = null
+    this.breakCounted = false
+  }
+}
+
+/**
+ * Hook: useBreakReminder
+ * Runs a BreakTracker on a one-second tick while monitoring (and not paused); `onBreak` receives each
+ * break taken or skipped so it can be stored with the session.
+ */
+export function useBreakReminder(
+  isActive: boolean,
+  isPaused: boolean,
+  seated: boolean,
+  opts: { settings?: BreakSettings; onBreak?: (event: BreakEvent) => void } = {}
+) {
+  const trackerRef = useRef<BreakTracker | null>(null)
+  if (!trackerRef.current) trackerRef.current = new BreakTracker()
+  trackerRef.current.setSettings(opts.settings ?? DEFAULT_BREAK_SETTINGS)
+  const seatedRef = useRef(seated)
+  seatedRef.current = seated
+  const onBreakRef = useRef(opts.onBreak)
+  onBreakRef.current = opts.onBreak
+
+  const [state, setState] = useState<BreakState>(INITIAL_STATE)
+
+  useEffect(() => {
+    const tracker = trackerRef.current!
+    // Each monitoring run starts a fresh sitting stretch; pauses only stop the clock
+    if (!isActive) {
+      tracker.reset()
+      setState(INITIAL_STATE)
+      return
+    }
+    if (isPaused) return
+    const tick = () => {
+      const now = Date.now()
+      const event = tracker.update(seatedRef.current, now)
+      if (event) onBreakRef.current?.(event)
+      setState(tracker.state(now))
+    }
+    tick()
+    const timer = setInterval(tick, TICK_MS)
+    return () => clearInterval(timer)
+  }, [isActive, isPaused])
+
+  const skipBreak = useCallback(() => {
+    const now = Date.now()
+    const event = trackerRef.current!.skip(now)
+    if (event) onBreakRef.current?.(event)
+    setState(trackerRef.current!.state(now))
+  }, [])
+
+  const completeBreak = useCallback(() => {
+    const now = Date.now()
+    onBreakRef.current?.(trackerRef.current!.complete(now))
+    setState(trackerRef.current!.state(now))
+  }, [])
+
+  return { breakState: state, skipBreak, completeBreak }
+}
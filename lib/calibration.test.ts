@@ -0,0 +1,114 @@
+import { describe, expect, it } from "vitest"
+import { BaselineCalibrator, maxStdDev } from "@/lib/calibration"
+import type { Landmark } from "@/lib/posture-engine"
+
+// Deterministic ± `amount` jitter, standing in for detector noise on a still pose
+function jitter(amount: number) {
+  let seed = 42
+  return () => {
+    seed = (seed * 16807) % 2147483647
+    return (seed / 2147483647 - 0.5) * 2 * amount
+  }
+}
+
+function pose(points: Record<number, [number, number, number]>, noise: () => number): Landmark[] {
+  const lm: Landmark[] = Array.from({ length: 33 }, () => ({ x: 0.5, y: 0.6, z: 0, visibility: 0.1 }))
+  Object.entries(points).forEach(([i, [x, y, z]]) => {
+    lm[Number(i)] = { x: x + noise(), y: y + noise(), z, visibility: 0.99 }
+  })
+  return lm
+}
+
+const FRONTAL: Record<number, [number, number, number]> = {
+  0: [0.5, 0.32, -0.1],
+  7: [0.55, 0.3, 0],
+  8: [0.45, 0.3, 0],
+  11: [0.6, 0.5, 0],
+  12: [0.4, 0.5, 0],
+}
+
+const LEFT_PROFILE: Record<number, [number, number, number]> = {
+  0: [0.45, 0.3, 0],
+  7: [0.5, 0.3, 0],
+  11: [0.5, 0.5, -0.1],
+  12: [0.5, 0.5, 0.1],
+  23: [0.5, 0.8, 0],
+}
+
+function calibrate(calibrator: BaselineCalibrator, points: Record<number, [number, number, number]>, amount: number, frames = 60) {
+  const noise = jitter(amount)
+  for (let i = 0; i < frames; i++) calibrator.add(pose(points, noise))
+  return calibrator.finish()
+}
+
+describe("BaselineCalibrator", () => {
+  it("accepts a still frontal pose", () => {
+    const result = calibrate(new BaselineCalibrator('front'), FRONTAL, 0.001)
+    expect(result.error).toBeNull()
+    expect(result.quality.rating).toBe('good')
+    expect(result.baseline?.orientation).toBe('front')
+    expect(result.baseline?.head_forward).toBeCloseTo(1, 1)
+  })
+
+  it("detects the frontal orientation with 'auto'", () => {
+    expect(calibrate(new BaselineCalibrator('auto'), FRONTAL, 0.001).baseline?.orientation).toBe('front')
+  })
+
+  it("accepts a still profile pose", () => {
+    const result = calibrate(new BaselineCalibrator('left'), LEFT_PROFILE, 0.001)
+    expect(result.error).toBeNull()
+    expect(result.baseline?.orientation).toBe('left')
+  })
+
+  it("rejects a frontal pose that moves too much", () => {
+    const result = calibrate(new BaselineCalibrator('front'), FRONTAL, 0.03)
+    expect(result.baseline).toBeNull()
+    expect(result.quality.rating).toBe('poor')
+    expect(result.error).toMatch(/Too much movement/)
+  })
+
+  it("needs enough frames with the key points visible", () => {
+    const calibrator = new BaselineCalibrator('front')
+    const noise = jitter(0)
+    const hidden = { ...FRONTAL }
+    delete hidden[8]
+    for (let i = 0; i < 60; i++) expect(calibrator.add(pose(hidden, noise))).toBe(false)
+    for (let i = 0; i < 5; i++) calibrator.add(pose(FRONTAL, noise))
+    const result = calibrator.finish()
+    expect(result.baseline).toBeNull()
+    expect(result.quality.rejected).toBe(60)
+    expect(result.error).toMatch(/Not enough clear frames/)
+  })
+
+  it("drops single-frame outliers", () => {
+    const calibrator = new BaselineCalibrator('front')
+    const noise = jitter(0.001)
+    for (let i = 0; i < 30; i++) calibrator.add(pose(FRONTAL, noise))
+    calibrator.add(pose({ ...FRONTAL, 7: [0.55, 0.4, 0] }, noise))
+    const result = calibrator.finish()
+    expect(result.error).toBeNull()
+    expect(result.quality.rejected).toBeGreaterThanOrEqual(1)
+  })
+
+  it("scales the noise limits to the orientation's units", () => {
+    expect(maxStdDev('left').head_angle).toBeCloseTo(5)
+    expect(maxStdDev('front').head_side_slouch).toBeCloseTo(2)
+    expect(maxStdDev('front').head_angle).toBeCloseTo(0.025)
+  })
+
+  it("votes on the stance, falling back when the legs are never seen", () => {
+    const seated = { ...LEFT_PROFILE, 24: [0.5, 0.8, 0.1], 25: [0.35, 0.82, 0], 26: [0.35, 0.82, 0.1] } as typeof LEFT_PROFILE
+    const standing = { ...LEFT_PROFILE, 24: [0.5, 0.8, 0.1], 25: [0.5, 1.0, 0], 26: [0.5, 1.0, 0.1] } as typeof LEFT_PROFILE
+    expect(calibrate(new BaselineCalibrator('left', 'standing'), seated, 0.001).baseline?.stance).toBe('sitting')
+    expect(calibrate(new BaselineCalibrator('left'), standing, 0.001).baseline?.stance).toBe('standing')
+    expect(calibrate(new BaselineCalibrator('left', 'standing'), LEFT_PROFILE, 0.001).baseline?.stance).toBe('standing')
+  })
+
+  it("averages registered rule values and the pose for the ghost", () => {
+    const rule = { id: 'nose-x', label: 'Nose', measure: ({ landmarks }: { landmarks: Landmark[] }) => landmarks[0].x, threshold: { lenient: 1, strict: 1 } }
+    const result = calibrate(new BaselineCalibrator('left', 'sitting', [rule]), LEFT_PROFILE, 0.001)
+    expect(result.baseline?.rules?.['nose-x']).toBeCloseTo(0.45, 2)
+    expect(result.baseline?.landmarks).toHaveLength(33)
+    expect(result.baseline?.landmarks?.[7].y).toBeCloseTo(0.3, 2)
+  })
+})
@@ -0,0 +1,182 @@
+// Multi-frame baseline calibration: collects a few seconds of frames, drops low-visibility
+// frames and outliers, averages the rest and rejects the result if it is still too noisy.
+
+import {
+  BUILT_IN_RULES,
+  classifyStance,
+  computeMetrics,
+  keyPointsVisible,
+  measureRuleBaselines,
+  posePoints,
+  resolveOrientation,
+  sensitivityToRule,
+  type CameraOrientation,
+  type Landmark,
+  type OrientationSetting,
+  type PosePoint,
+  type PostureBaseline,
+  type PostureMetrics,
+  type PostureRule,
+  type PostureRuleId,
+  type Stance,
+} from "@/lib/posture-engine"
+
+export type CalibrationRating = 'good' | 'fair' | 'poor'
+
+export type CalibrationQuality = {
+  frames: number // frames kept after filtering
+  rejected: number // low-visibility frames + outliers
+  variance: PostureMetrics
+  rating: CalibrationRating
+}
+
+export type CalibrationResult = {
+  baseline: PostureBaseline | null
+  quality: CalibrationQuality
+  error: string | null
+}
+
+export type CalibrationState = {
+  phase: 'countdown' | 'collecting' | 'done' | 'failed'
+  remainingMs: number
+  progress: number // 0–1 through the collecting phase
+  quality: CalibrationQuality | null
+  baseline: PostureBaseline | null
+  error: string | null
+}
+
+type Sample = {
+  orientation: CameraOrientation
+  metrics: PostureMetrics
+  rules: Record<string, number>
+  landmarks: PosePoint[]
+}
+
+const MIN_FRAMES = 15
+// Outliers are frames more than this many (scaled) MADs from the median on any metric
+const OUTLIER_MADS = 3
+
+// Largest acceptable standard deviation per metric is this share of the strictest warning
+// threshold, so it follows the metric units of the camera orientation
+const MAX_STD_DEV_RATIO = 0.5
+// Screen distance and head height have the same units in every view, and relative thresholds
+const FIXED_MAX_STD_DEV = { face_size: 0.004, head_height: 0.015 }
+
+export function maxStdDev(orientation: CameraOrientation): PostureMetrics {
+  const limit = (id: PostureRuleId) =>
+    sensitivityToRule(BUILT_IN_RULES.find(rule => rule.id === id)!, 100, orientation).threshold * MAX_STD_DEV_RATIO
+  return {
+    head_forward: limit('forward'),
+    head_side_slouch: limit('side'),
+    head_angle: limit('head'),
+    ...FIXED_MAX_STD_DEV,
+  }
+}
+
+const METRIC_KEYS: (keyof PostureMetrics)[] = ['head_forward', 'head_side_slouch', 'head_angle', 'face_size', 'head_height']
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b)
+  const mid = Math.floor(sorted.length / 2)
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2
+}
+
+const emptyMetrics = (): PostureMetrics => ({ head_forward: 0, head_side_slouch: 0, head_angle: 0, face_size: 0, head_height: 0 })
+
+export class BaselineCalibrator {
+  private samples: Sample[] = []
+  private stanceVotes: Record<Stance, number> = { sitting: 0, standing: 0 }
+  private lowVisibility = 0
+
+  // With 'auto', each frame's orientation is detected and the majority wins at the end.
+  // The stance is voted on the same way; `fallbackStance` applies when the legs are never visible.
+  // Registered rules without a built-in metric get their baseline values averaged too.
+  constructor(
+    private orientation: OrientationSetting = 'auto',
+    private fallbackStance: Stance = 'sitting',
+    private rules: PostureRule[] = []
+  ) {}
+
+  get frameCount() {
+    return this.samples.length
+  }
+
+  // Returns false if the frame was rejected for low visibility
+  add(lm: Landmark[]) {
+    const orientation = resolveOrientation(this.orientation, lm)
+    if (!keyPointsVisible(lm, orientation)) {
+      this.lowVisibility++
+      return false
+    }
+    this.samples.push({
+      orientation,
+      metrics: computeMetrics(lm, orientation),
+      rules: measureRuleBaselines(this.rules, lm, orientation),
+      landmarks: posePoints(lm),
+    })
+    const stance = classifyStance(lm)
+    if (stance) this.stanceVotes[stance]++
+    return true
+  }
+
+  finish(): CalibrationResult {
+    const votes: Record<CameraOrientation, number> = { left: 0, right: 0, front: 0 }
+    this.samples.forEach(s => votes[s.orientation]++)
+    const orientation = (Object.keys(votes) as CameraOrientation[]).reduce((a, b) => (votes[b] > votes[a] ? b : a))
+    const agreeing = this.samples.filter(s => s.orientation === orientation)
+    const keptSamples = this.rejectOutliers(agreeing)
+    const kept = keptSamples.map(s => s.metrics)
+    const rejected = this.lowVisibility + (this.samples.length - kept.length)
+
+    const mean = emptyMetrics()
+    const variance = emptyMetrics()
+    if (kept.length) {
+      METRIC_KEYS.forEach(k => {
+        mean[k] = kept.reduce((a, s) => a + s[k], 0) / kept.length
+        variance[k] = kept.reduce((a, s) => a + (s[k] - mean[k]) ** 2, 0) / kept.length
+      })
+    }
+
+    // Worst metric relative to its limit decides the rating
+    const limits = maxStdDev(orientation)
+    const worst = Math.max(...METRIC_KEYS.map(k => Math.sqrt(variance[k]) / limits[k]))
+    const rating: CalibrationRating = worst <= 0.5 ? 'good' : worst <= 1 ? 'fair' : 'poor'
+    const quality = { frames: kept.length, rejected, variance, rating }
+
+    if (kept.length < MIN_FRAMES) {
+      return { baseline: null, quality: { ...quality, rating: 'poor' }, error: 'Not enough clear frames — make sure your head, shoulders and hip are visible' }
+    }
+    if (rating === 'poor') {
+      return { baseline: null, quality, error: 'Too much movement during calibration — hold still and try again' }
+    }
+    const { sitting, standing } = this.stanceVotes
+    const stance: Stance = sitting + standing === 0 ? this.fallbackStance : standing > sitting ? 'standing' : 'sitting'
+    // Mean pose of the kept frames, for the overlay ghost
+    const landmarks = keptSamples[0].landmarks.map((_, i) => ({
+      x: keptSamples.reduce((a, s) => a + s.landmarks[i].x, 0) / keptSamples.length,
+      y: keptSamples.reduce((a, s) => a + s.landmarks[i].y, 0) / keptSamples.length,
+    }))
+    const baseline: PostureBaseline = { ...mean, orientation, stance, landmarks: posePoints(landmarks) }
+    const ruleIds = Array.from(new Set(keptSamples.flatMap(s => Object.keys(s.rules))))
+    if (ruleIds.length) {
+      baseline.rules = {}
+      ruleIds.forEach(id => {
+        const values = keptSamples.map(s => s.rules[id]).filter(v => v !== undefined)
+        baseline.rules![id] = values.reduce((a, v) => a + v, 0) / values.length
+      })
+    }
+    return { baseline, quality, error: null }
+  }
+
+  private rejectOutliers(samples: Sample[]) {
+    if (samples.length < 3) return samples
+    const bounds = METRIC_KEYS.map(k => {
+      const values = samples.map(s => s.metrics[k])
+      const med = median(values)
+      // 1.4826 scales MAD to a standard deviation for normally distributed noise
+      const mad = median(values.map(v => Math.abs(v - med))) * 1.4826
+      return { k, med, limit: Math.max(mad * OUTLIER_MADS, 1e-9) }
+    })
+    return samples.filter(s => bounds.every(b => Math.abs(s.metrics[b.k] - b.med) <= b.limit))
+  }
+}
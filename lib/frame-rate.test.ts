@@ -0,0 +1,69 @@
+import { describe, expect, it } from "vitest"
+import { FrameRateController } from "@/lib/frame-rate"
+
+// Runs one 1 s evaluation window with `frames` results at `latencyMs` and `dropped` skipped frames
+function runWindow(controller: FrameRateController, start: number, frames: number, latencyMs: number, dropped = 0) {
+  controller.evaluate(start)
+  for (let i = 0; i < frames; i++) controller.frameDone(latencyMs)
+  for (let i = 0; i < dropped; i++) controller.frameDropped()
+  return controller.evaluate(start + 1000)!
+}
+
+describe("FrameRateController", () => {
+  it("reports telemetry once per window", () => {
+    const controller = new FrameRateController({ maxFps: 30 })
+    expect(controller.evaluate(0)).toBeNull()
+    for (let i = 0; i < 30; i++) controller.frameDone(10, 8)
+    expect(controller.evaluate(500)).toBeNull()
+    const decision = controller.evaluate(1000)!
+    expect(decision.telemetry).toMatchObject({ fps: 30, targetFps: 30, latencyMs: 10, inferenceMs: 8, droppedFrames: 0 })
+  })
+
+  it("lowers the rate when latency eats the frame budget, down to the minimum", () => {
+    const controller = new FrameRateController({ maxFps: 30, minFps: 5 })
+    let t = 0
+    const rates: number[] = []
+    for (let i = 0; i < 10; i++, t += 1000) rates.push(runWindow(controller, t, 10, 200).telemetry.targetFps)
+    expect(rates[0]).toBeLessThan(30)
+    expect(rates.every((r, i) => i === 0 || r <= rates[i - 1])).toBe(true)
+    expect(rates[rates.length - 1]).toBe(5)
+    expect(controller.interval).toBe(200)
+  })
+
+  it("treats many dropped frames as overloaded", () => {
+    const controller = new FrameRateController({ maxFps: 30 })
+    expect(runWindow(controller, 0, 20, 5, 10).telemetry.targetFps).toBeLessThan(30)
+  })
+
+  it("drops the model complexity once at the minimum rate, and restores it when relaxed", () => {
+    const controller = new FrameRateController({ maxFps: 5, minFps: 5 })
+    controller.setModelComplexity(1)
+    expect(runWindow(controller, 0, 5, 300).complexity).toBe(0)
+    expect(runWindow(controller, 1000, 5, 300).complexity).toBeNull() // nothing lower left
+
+    // Three relaxed windows in a row before stepping back up; plenty of fast frames so the
+    // moving average forgets the slow ones
+    expect(runWindow(controller, 2000, 60, 1).complexity).toBeNull()
+    expect(runWindow(controller, 3000, 60, 1).complexity).toBeNull()
+    expect(runWindow(controller, 4000, 60, 1).complexity).toBe(1)
+  })
+
+  it("steps the rate back up slowly when the detector has headroom", () => {
+    const controller = new FrameRateController({ maxFps: 30, minFps: 5 })
+    const lowered = runWindow(controller, 0, 10, 200).telemetry.targetFps
+    let t = 0
+    const after = [1, 2, 3].map(() => runWindow(controller, (t += 1000), 60, 1).telemetry.targetFps)
+    expect(after).toEqual([lowered, lowered, lowered + 2])
+  })
+
+  it("caps the rate on battery", () => {
+    const controller = new FrameRateController({ maxFps: 30 })
+    controller.setOnBattery(true)
+    expect(runWindow(controller, 0, 15, 5).telemetry).toMatchObject({ targetFps: 15, maxFps: 15, onBattery: true })
+  })
+
+  it("keeps the rate fixed when not adaptive", () => {
+    const controller = new FrameRateController({ maxFps: 30, adaptive: false })
+    expect(runWindow(controller, 0, 5, 500).telemetry.targetFps).toBe(30)
+  })
+})
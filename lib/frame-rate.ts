@@ -0,0 +1,157 @@
+// Adaptive capture rate for live detection: measures achieved FPS, latency and dropped
+// frames, and lowers the rate (then the model complexity) when the detector cannot keep up.
+
+import type { ModelComplexity } from "@/lib/pose-detector"
+
+export type PerformanceTelemetry = {
+  fps: number // detections completed per second
+  targetFps: number // current capture rate
+  maxFps: number // ceiling after the battery cap
+  latencyMs: number // frame grab to result, moving average
+  lastLatencyMs: number
+  inferenceMs: number // time spent in the model, moving average
+  droppedFrames: number // total frames skipped because the detector was busy
+  modelComplexity: ModelComplexity | null // null if the backend cannot change it
+  onBattery: boolean
+}
+
+// Telemetry is published and the rate re-evaluated once per window
+const EVAL_WINDOW_MS = 1000
+// Weight of the newest frame in the moving averages
+const SMOOTHING = 0.1
+// Ceiling on the capture rate while the device is discharging
+const BATTERY_MAX_FPS = 15
+// Latency as a fraction of the frame budget above which we slow down / below which we speed up
+const OVERLOAD_RATIO = 0.8
+const UNDERLOAD_RATIO = 0.4
+// Share of frames dropped in a window that counts as overloaded
+const MAX_DROP_RATIO = 0.25
+// Consecutive relaxed windows needed before stepping back up, to avoid oscillating
+const STEP_UP_WINDOWS = 3
+const FPS_STEP_UP = 2
+
+export type FrameRateDecision = {
+  telemetry: PerformanceTelemetry
+  complexity: ModelComplexity | null // new model complexity to apply, if it changed
+}
+
+export class FrameRateController {
+  private target: number
+  private minFps: number
+  private maxFps: number
+  private adaptive: boolean
+  private onBattery = false
+  private complexity: ModelComplexity | null = null
+  private preferredComplexity: ModelComplexity | null = null
+  private avgLatency: number | null = null
+  private avgInference: number | null = null
+  private lastLatency = 0
+  private totalDropped = 0
+  private windowStart: number | null = null
+  private windowFrames = 0
+  private windowDropped = 0
+  private relaxedWindows = 0
+
+  constructor(opts: { maxFps?: number; minFps?: number; adaptive?: boolean } = {}) {
+    this.maxFps = opts.maxFps ?? 30
+    this.minFps = Math.min(opts.minFps ?? 5, this.maxFps)
+    this.adaptive = opts.adaptive ?? true
+    this.target = this.maxFps
+  }
+
+  // Milliseconds between captures at the current rate
+  get interval() {
+    return 1000 / this.target
+  }
+
+  // Enables complexity adaptation; the starting level is also the ceiling we return to
+  setModelComplexity(level: ModelComplexity | null) {
+    this.complexity = level
+    this.preferredComplexity = level
+  }
+
+  setOnBattery(onBattery: boolean) {
+    this.onBattery = onBattery
+    this.target = Math.min(this.target, this.cap)
+  }
+
+  frameDropped() {
+    this.totalDropped++
+    this.windowDropped++
+  }
+
+  frameDone(latencyMs: number, inferenceMs: number = latencyMs) {
+    this.lastLatency = latencyMs
+    this.avgLatency = this.avgLatency === null ? latencyMs : this.avgLatency + SMOOTHING * (latencyMs - this.avgLatency)
+    this.avgInference = this.avgInference === null ? inferenceMs : this.avgInference + SMOOTHING * (inferenceMs - this.avgInference)
+    this.windowFrames++
+  }
+
+  // Call on every loop tick; returns a decision once per window, otherwise null
+  evaluate(now: number): FrameRateDecision | null {
+    if (this.windowStart === null) this.windowStart = now
+    const elapsed = now - this.windowStart
+    if (elapsed < EVAL_WINDOW_MS) return null
+
+    const fps = (this.windowFrames * 1000) / elapsed
+    const complexity = this.adaptive ? this.adapt() : null
+    this.windowStart = now
+    this.windowFrames = 0
+    this.windowDropped = 0
+    return {
+      telemetry: {
+        fps,
+        targetFps: this.target,
+        maxFps: this.cap,
+        latencyMs: this.avgLatency ?? 0,
+        lastLatencyMs: this.lastLatency,
+        inferenceMs: this.avgInference ?? 0,
+        droppedFrames: this.totalDropped,
+        modelComplexity: this.complexity,
+        onBattery: this.onBattery,
+      },
+      complexity,
+    }
+  }
+
+  private get cap() {
+    return this.onBattery ? Math.min(this.maxFps, BATTERY_MAX_FPS) : this.maxFps
+  }
+
+  // Returns a new model complexity when that is the lever that moved
+  private adapt(): ModelComplexity | null {
+    if (this.avgLatency === null) return null
+    const budget = 1000 / this.target
+    const attempted = this.windowFrames + this.windowDropped
+    const overloaded = this.avgLatency > budget * OVERLOAD_RATIO
+      || (attempted > 0 && this.windowDropped / attempted > MAX_DROP_RATIO)
+    const relaxed = this.avgLatency < budget * UNDERLOAD_RATIO && this.windowDropped === 0
+
+    if (overloaded) {
+      this.relaxedWindows = 0
+      if (this.target > this.minFps) {
+        this.target = Math.max(this.minFps, Math.round(this.target * 0.75))
+        return null
+      }
+      if (this.complexity !== null && this.complexity > 0) {
+        this.complexity = (this.complexity - 1) as ModelComplexity
+        this.avgLatency = null // the old model's timings no longer apply
+        return this.complexity
+      }
+      return null
+    }
+
+    if (!relaxed || ++this.relaxedWindows < STEP_UP_WINDOWS) return null
+    this.relaxedWindows = 0
+    if (this.target < this.cap) {
+      this.target = Math.min(this.cap, this.target + FPS_STEP_UP)
+      return null
+    }
+    if (this.complexity !== null && this.preferredComplexity !== null && this.complexity < this.preferredComplexity) {
+      this.complexity = (this.complexity + 1) as ModelComplexity
+      this.avgLatency = null
+      return this.complexity
+    }
+    return null
+  }
+}
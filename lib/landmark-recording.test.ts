@@ -0,0 +1,65 @@
+import { readFileSync } from "node:fs"
+import { describe, expect, it } from "vitest"
+import { LandmarkRecorder, parseRecording, replayRecording, serializeRecording } from "@/lib/landmark-recording"
+import { PostureEngine, type PostureBaseline } from "@/lib/posture-engine"
+
+// Synthetic left-profile session written with LandmarkRecorder, not captured from a camera:
+// 10 fps, 2 s upright, 4 s leaning forward, then 1 s out of frame
+const FIXTURE = readFileSync(new URL("./fixtures/forward-lean.ndjson", import.meta.url), "utf8")
+
+describe("landmark recordings", () => {
+  it("serializes a parsed recording back to the same file", () => {
+    const rec = parseRecording(FIXTURE)
+    expect(rec.baseline?.orientation).toBe('left')
+    expect(rec.entries).toHaveLength(70)
+    expect(serializeRecording(rec)).toBe(FIXTURE)
+  })
+
+  it("rejects files without a header", () => {
+    expect(() => parseRecording('')).toThrow('Recording is empty')
+    expect(() => parseRecording('{"t":0,"lm":[]}\n')).toThrow('Missing recording header')
+  })
+
+  it("replays the forward-lean fixture to the expected warnings", () => {
+    const results = replayRecording(parseRecording(FIXTURE))
+    expect(results).toHaveLength(70)
+    const warned = results.filter(r => r.warnings.length)
+
+    // Nothing while upright, and only the forward lean once it has filled its 3 s window
+    expect(results.filter(r => r.timestamp < 2000).every(r => r.warnings.length === 0)).toBe(true)
+    expect(new Set(warned.flatMap(r => r.warnings.map(w => w.ruleId)))).toEqual(new Set(['forward']))
+    expect(warned[0].timestamp).toBeGreaterThanOrEqual(4500)
+    expect(warned[0].timestamp).toBeLessThan(6000)
+
+    // Leaving the frame clears it
+    const away = results.filter(r => r.timestamp >= 6000)
+    expect(away.every(r => r.presence === 'absent' && r.warnings.length === 0)).toBe(true)
+  })
+
+  it("scores the forward-lean fixture as expected at fixed points", () => {
+    const results = replayRecording(parseRecording(FIXTURE))
+    const at = (timestamp: number) => {
+      const r = results.find(r => r.timestamp === timestamp)!
+      return { score: r.score, forward: r.subScores.forward, warnings: r.warnings.map(w => `${w.ruleId}:${w.severity}`) }
+    }
+
+    expect(at(1900)).toEqual({ score: 100, forward: 100, warnings: [] })
+    expect(at(3000)).toEqual({ score: 90, forward: 65, warnings: [] })
+    expect(at(4500)).toEqual({ score: 76, forward: 15, warnings: [] })
+    expect(at(4600)).toEqual({ score: 75, forward: 12, warnings: ['forward:severe'] })
+    expect(at(5900)).toEqual({ score: 71, forward: 0, warnings: ['forward:severe'] })
+    // Out of frame holds the last score without warning
+    expect(at(6500)).toEqual({ score: 71, forward: 0, warnings: [] })
+  })
+
+  it("restores the baselines of both stances on replay", () => {
+    const sitting = { ...parseRecording(FIXTURE).baseline!, stance: 'sitting' } as PostureBaseline
+    const standing = { ...sitting, head_height: 0.1, stance: 'standing' } as PostureBaseline
+    const recorder = new LandmarkRecorder({ baseline: sitting, baselines: { sitting, standing } })
+    const rec = parseRecording(serializeRecording(recorder.finish()))
+
+    const engine = new PostureEngine()
+    replayRecording(rec, engine)
+    expect(engine.baselines).toEqual({ sitting, standing })
+  })
+})
@@ -0,0 +1,153 @@
+// Recording / replay of raw pose landmark streams.
+// File format is NDJSON: one header line, then one line per frame or baseline change.
+//   {"v":1,"createdAt":"…","width":640,"height":480,"baseline":{…}|null,"baselines":{"sitting":…,"standing":…}}
+//   {"t":33.4,"lm":[x,y,z,visibility, x,y,z,visibility, …]}
+//   {"t":512.0,"baseline":{…}}
+// `t` is milliseconds since the recording started. `baseline` is the one for the stance at the
+// start; `baselines` holds every stance's, and is missing in recordings from before stance detection.
+
+import { PostureEngine, type Landmark, type PostureBaseline, type PostureFrameResult, type Stance } from "@/lib/posture-engine"
+
+export const RECORDING_VERSION = 1
+
+export type RecordingEntry =
+  | { t: number; landmarks: Landmark[] }
+  | { t: number; baseline: PostureBaseline }
+
+export type LandmarkRecording = {
+  version: number
+  createdAt: string
+  width?: number
+  height?: number
+  baseline: PostureBaseline | null
+  baselines?: Partial<Record<Stance, PostureBaseline | null>>
+  entries: RecordingEntry[]
+}
+
+// 4 decimals is well below MediaPipe's own jitter and keeps files small
+const round = (v: number) => Math.round(v * 1e4) / 1e4
+
+export class LandmarkRecorder {
+  private startTs: number | null = null
+  private recording: LandmarkRecording
+
+  constructor(opts: { baseline?: PostureBaseline | null; baselines?: Partial<Record<Stance, PostureBaseline | null>> } = {}) {
+    this.recording = {
+      version: RECORDING_VERSION,
+      createdAt: new Date().toISOString(),
+      baseline: opts.baseline ?? null,
+      baselines: { ...opts.baselines },
+      entries: [],
+    }
+  }
+
+  get frameCount() {
+    return this.recording.entries.filter(e => 'landmarks' in e).length
+  }
+
+  private relative(ts: number) {
+    if (this.startTs === null) this.startTs = ts
+    return round(ts - this.startTs)
+  }
+
+  push(landmarks: Landmark[], ts: number, size?: { width: number; height: number }) {
+    if (size?.width && !this.recording.width) {
+      this.recording.width = size.width
+      this.recording.height = size.height
+    }
+    this.recording.entries.push({
+      t: this.relative(ts),
+      landmarks: landmarks.map(p => ({ x: p.x, y: p.y, z: p.z, visibility: p.visibility })),
+    })
+  }
+
+  markBaseline(baseline: PostureBaseline, ts: number) {
+    // Before the first frame the baseline simply becomes the starting one
+    if (this.recording.entries.length === 0) {
+      this.recording.baseline = { ...baseline }
+      this.recording.baselines = { ...this.recording.baselines, [baseline.stance ?? 'sitting']: { ...baseline } }
+      return
+    }
+    this.recording.entries.push({ t: this.relative(ts), baseline: { ...baseline } })
+  }
+
+  finish(): LandmarkRecording {
+    return this.recording
+  }
+}
+
+export function serializeRecording(rec: LandmarkRecording): string {
+  const header = {
+    v: rec.version,
+    createdAt: rec.createdAt,
+    width: rec.width,
+    height: rec.height,
+    baseline: rec.baseline,
+    baselines: rec.baselines,
+  }
+  const lines = [JSON.stringify(header)]
+  rec.entries.forEach(e => {
+    if ('landmarks' in e) {
+      const flat: number[] = []
+      e.landmarks.forEach(p => flat.push(round(p.x), round(p.y), round(p.z), round(p.visibility ?? 1)))
+      lines.push(JSON.stringify({ t: e.t, lm: flat }))
+    } else {
+      lines.push(JSON.stringify({ t: e.t, baseline: e.baseline }))
+    }
+  })
+  return lines.join('\n') + '\n'
+}
+
+export function parseRecording(text: string): LandmarkRecording {
+  const lines = text.split('\n').filter(l => l.trim())
+  if (lines.length === 0) throw new Error('Recording is empty')
+  const header = JSON.parse(lines[0])
+  if (typeof header?.v !== 'number') throw new Error('Missing recording header')
+  if (header.v > RECORDING_VERSION) throw new Error(`Unsupported recording version ${header.v}`)
+  const entries: RecordingEntry[] = []
+  for (let i = 1; i < lines.length; i++) {
+    const row = JSON.parse(lines[i])
+    if (Array.isArray(row.lm)) {
+      const landmarks: Landmark[] = []
+      for (let j = 0; j + 3 < row.lm.length; j += 4) {
+        landmarks.push({ x: row.lm[j], y: row.lm[j + 1], z: row.lm[j + 2], visibility: row.lm[j + 3] })
+      }
+      entries.push({ t: row.t, landmarks })
+    } else if (row.baseline) {
+      entries.push({ t: row.t, baseline: row.baseline })
+    } else {
+      throw new Error(`Unrecognised recording line ${i + 1}`)
+    }
+  }
+  return {
+    version: header.v,
+    createdAt: header.createdAt ?? '',
+    width: header.width,
+    height: header.height,
+    baseline: header.baseline ?? null,
+    baselines: header.baselines ?? undefined,
+    entries,
+  }
+}
+
+// Replaces the engine's baselines with the ones the recording started with, for every stance
+export function restoreRecordingBaselines(rec: LandmarkRecording, engine: PostureEngine) {
+  engine.clearBaselines()
+  ;[...Object.values(rec.baselines ?? {}), rec.baseline].forEach(baseline => {
+    if (baseline) engine.setBaseline(baseline)
+  })
+}
+
+/**
+ * Runs a recording through a PostureEngine synchronously and returns every frame result.
+ * Useful for tuning thresholds and regression fixtures; the live hook uses the same engine.
+ */
+export function replayRecording(rec: LandmarkRecording, engine = new PostureEngine()): PostureFrameResult[] {
+  restoreRecordingBaselines(rec, engine)
+  const results: PostureFrameResult[] = []
+  rec.entries.forEach(e => {
+    if ('landmarks' in e) results.push(engine.process(e.landmarks, e.t))
+    else engine.setBaseline(e.baseline)
+  })
+  return results
+}
@@ -0,0 +1,14 @@
+// Where the detectors load their WASM and model files from. Defaults to the copies the app
+// serves itself under /mediapipe (see scripts/copy-mediapipe-assets.mjs); override with
+// NEXT_PUBLIC_MEDIAPIPE_ASSET_BASE or the hook's `assetBaseUrl` option, e.g. to point at a CDN.
+
+export const DEFAULT_ASSET_BASE_URL = process.env.NEXT_PUBLIC_MEDIAPIPE_ASSET_BASE || '/mediapipe'
+
+export function mediapipeAssetUrls(baseUrl: string = DEFAULT_ASSET_BASE_URL) {
+  const base = baseUrl.replace(/\/+$/, '')
+  return {
+    legacyPose: `${base}/pose`,
+    tasksWasm: `${base}/tasks-vision/wasm`,
+    poseLandmarkerModel: `${base}/models/pose_landmarker_full.task`,
+  }
+}
@@ -0,0 +1,65 @@
+// Legacy backend: the deprecated @mediapipe/pose solution, kept as a fallback detector
+
+import type { DetectionResult, DetectorInput, ModelComplexity, PoseDetector } from "@/lib/pose-detector"
+import { mediapipeAssetUrls } from "@/lib/mediapipe-assets"
+
+const POSE_OPTIONS = {
+  enableSegmentation: false,
+  minDetectionConfidence: 0.7,
+  minTrackingConfidence: 0.7,
+}
+const DEFAULT_MODEL_COMPLEXITY: ModelComplexity = 1
+
+async function createPose(assetBaseUrl?: string) {
+  const { Pose } = await import("@mediapipe/pose")
+  const base = mediapipeAssetUrls(assetBaseUrl).legacyPose
+  const pose = new Pose({
+    locateFile: (file: string) => `${base}/${file}`
+  })
+  pose.setOptions({ ...POSE_OPTIONS, modelComplexity: DEFAULT_MODEL_COMPLEXITY })
+
+  // Await internal WASM / assets init; a failure here means the assets could not be loaded
+  if ((pose as any).initialize) {
+    try {
+      await (pose as any).initialize()
+    } catch (e) {
+      try { pose.close() } catch {}
+      throw new Error(`Could not load pose assets from ${base}`, { cause: e })
+    }
+  }
+  return pose
+}
+
+export async function createLegacyPoseDetector(opts: { assetBaseUrl?: string } = {}): Promise<PoseDetector> {
+  const pose = await createPose(opts.assetBaseUrl)
+  // send() resolves after onResults has fired for that frame, so the latest result is the one we want
+  let latest: DetectionResult = { landmarks: null, worldLandmarks: null }
+  pose.onResults((res: any) => {
+    latest = {
+      landmarks: res?.poseLandmarks ?? null,
+      worldLandmarks: res?.poseWorldLandmarks ?? null,
+    }
+  })
+  let complexity = DEFAULT_MODEL_COMPLEXITY
+  return {
+    backend: 'legacy',
+    inWorker: false,
+    get modelComplexity() {
+      return complexity
+    },
+    // The solution loads the matching pose_landmark_{lite,full,heavy} model on the next send()
+    setModelComplexity(level: ModelComplexity) {
+      if (level === complexity) return
+      complexity = level
+      pose.setOptions({ ...POSE_OPTIONS, modelComplexity: level })
+    },
+    async detect(image: DetectorInput) {
+      latest = { landmarks: null, worldLandmarks: null }
+      await pose.send({ image: image as any })
+      return latest
+    },
+    close() {
+      try { pose.close() } catch {}
+    },
+  }
+}
@@ -0,0 +1,67 @@
+// Detector abstraction so the analysis code does not care which MediaPipe API produced the landmarks
+
+import type { Landmark } from "@/lib/posture-engine"
+
+export type DetectorBackend = 'tasks' | 'legacy'
+
+export type DetectionResult = {
+  landmarks: Landmark[] | null // normalized image coordinates, null when nobody is detected
+  worldLandmarks: Landmark[] | null // metres, hip-centred (null if the backend has none)
+  inferenceMs?: number // model time alone, when it differs from the caller's round trip (worker)
+}
+
+// Legacy solution model size: 0 = lite, 1 = full, 2 = heavy
+export type ModelComplexity = 0 | 1 | 2
+
+export type DetectorInput = HTMLVideoElement | HTMLCanvasElement | ImageBitmap
+
+export interface PoseDetector {
+  readonly backend: DetectorBackend
+  readonly inWorker: boolean // inference runs off the main thread
+  // Only backends that can swap models at runtime implement these
+  readonly modelComplexity?: ModelComplexity
+  setModelComplexity?(level: ModelComplexity): void
+  // Timestamps are milliseconds and must increase between calls (VIDEO mode requirement)
+  detect(image: DetectorInput, timestamp: number): Promise<DetectionResult>
+  close(): void
+}
+
+/**
+ * Creates a detector for the requested backend. 'auto' prefers the PoseLandmarker
+ * (tasks-vision) backend and falls back to the legacy @mediapipe/pose solution.
+ * With `worker` (the default) the PoseLandmarker runs in a Web Worker where the browser
+ * supports it, falling back to the main thread. The legacy solution is main-thread only.
+ */
+export async function createPoseDetector(
+  backend: DetectorBackend | 'auto' = 'auto',
+  opts: { assetBaseUrl?: string; worker?: boolean } = {}
+): Promise<PoseDetector> {
+  if (backend === 'legacy') {
+    const { createLegacyPoseDetector } = await import("@/lib/mediapipe-pose")
+    return createLegacyPoseDetector(opts)
+  }
+  const createTasks = async () => {
+    const { createWorkerPoseDetector, workerDetectionSupported } = await import("@/lib/pose-worker-detector")
+    if ((opts.worker ?? true) && workerDetectionSupported()) {
+      try {
+        return await createWorkerPoseDetector(opts)
+      } catch (e) {
+        console.warn('Pose worker init failed, running PoseLandmarker on the main thread', e)
+      }
+    }
+    const { createPoseLandmarkerDetector } = await import("@/lib/pose-landmarker")
+    return createPoseLandmarkerDetector(opts)
+  }
+  if (backend === 'tasks') return createTasks()
+  try {
+    return await createTasks()
+  } catch (e) {
+    console.warn('PoseLandmarker init failed, falling back to legacy Pose', e)
+    const { createLegacyPoseDetector } = await import("@/lib/mediapipe-pose")
+    try {
+      return await createLegacyPoseDetector(opts)
+    } catch (legacyErr) {
+      throw new Error('No pose detector could be loaded', { cause: legacyErr })
+    }
+  }
+}
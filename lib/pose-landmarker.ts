@@ -0,0 +1,42 @@
+// Tasks backend: @mediapipe/tasks-vision PoseLandmarker in VIDEO mode
+
+import type { DetectorInput, PoseDetector } from "@/lib/pose-detector"
+import { mediapipeAssetUrls } from "@/lib/mediapipe-assets"
+
+export async function createPoseLandmarkerDetector(opts: { assetBaseUrl?: string } = {}): Promise<PoseDetector> {
+  const { FilesetResolver, PoseLandmarker } = await import("@mediapipe/tasks-vision")
+  const urls = mediapipeAssetUrls(opts.assetBaseUrl)
+  let landmarker: Awaited<ReturnType<typeof PoseLandmarker.createFromOptions>>
+  try {
+    const fileset = await FilesetResolver.forVisionTasks(urls.tasksWasm)
+    landmarker = await PoseLandmarker.createFromOptions(fileset, {
+      baseOptions: { modelAssetPath: urls.poseLandmarkerModel, delegate: 'GPU' },
+      runningMode: 'VIDEO',
+      numPoses: 1,
+      minPoseDetectionConfidence: 0.7,
+      minPosePresenceConfidence: 0.7,
+      minTrackingConfidence: 0.7,
+    })
+  } catch (e) {
+    throw new Error(`Could not load PoseLandmarker assets from ${urls.tasksWasm} / ${urls.poseLandmarkerModel}`, { cause: e })
+  }
+
+  let lastTs = -1
+  return {
+    backend: 'tasks',
+    inWorker: false,
+    async detect(image: DetectorInput, timestamp: number) {
+      // detectForVideo rejects non-increasing timestamps
+      const ts = Math.max(timestamp, lastTs + 1)
+      lastTs = ts
+      const res = landmarker.detectForVideo(image, ts)
+      return {
+        landmarks: res.landmarks[0] ?? null,
+        worldLandmarks: res.worldLandmarks[0] ?? null,
+      }
+    },
+    close() {
+      try { landmarker.close() } catch {}
+    },
+  }
+}
@@ -0,0 +1,143 @@
+// Canvas drawing for the posture overlay beyond the plain skeleton: rule segments coloured by
+// state, a translucent ghost of the baseline pose, and live metric values next to the joints.
+// Landmarks are normalized, so everything is scaled to the canvas size.
+
+import {
+  MIN_VISIBILITY,
+  type CameraOrientation,
+  type Landmark,
+  type PosePoint,
+  type PostureBaseline,
+  type PostureFrameResult,
+  type PostureRule,
+} from "@/lib/posture-engine"
+
+export type OverlayOptions = {
+  highlights: boolean // colour the segments each rule measures
+  ghost: boolean // baseline pose behind the live skeleton
+  values: boolean // live diff per rule next to its segments
+}
+
+export const DEFAULT_OVERLAY: OverlayOptions = { highlights: true, ghost: false, values: false }
+
+export type RuleState = 'ok' | 'over' | 'warning'
+
+const RULE_COLORS: Record<RuleState, string> = {
+  ok: '#22c55e',
+  over: '#f59e0b', // past the threshold, but not long enough to warn
+  warning: '#ef4444',
+}
+const STATE_RANK: Record<RuleState, number> = { ok: 0, over: 1, warning: 2 }
+const GHOST_COLOR = 'rgba(255, 255, 255, 0.35)'
+const VALUE_FONT = '600 12px system-ui, sans-serif'
+
+// Short names and units for the built-in rules; registered rules show their id and raw diff
+const VALUE_FORMATS: Record<string, { name: string; format: (diff: number, orientation: CameraOrientation) => string }> = {
+  forward: { name: 'Fwd', format: d => d.toFixed(3) },
+  side: { name: 'Side', format: (d, o) => (o === 'front' ? `${d.toFixed(1)}°` : d.toFixed(3)) },
+  head: { name: 'Head', format: (d, o) => (o === 'front' ? d.toFixed(2) : `${d.toFixed(1)}°`) },
+  distance: { name: 'Dist', format: d => `+${Math.round(d * 100)}%` },
+  height: { name: 'Drop', format: d => `${Math.round(d * 100)}%` },
+}
+
+export function ruleState(result: PostureFrameResult, ruleId: string): RuleState {
+  if (result.warnings.some(w => w.ruleId === ruleId)) return 'warning'
+  return result.flags[ruleId] ? 'over' : 'ok'
+}
+
+const toCanvas = (p: PosePoint, size: { width: number; height: number }) => ({ x: p.x * size.width, y: p.y * size.height })
+
+const visible = (lm: Landmark[], i: number) => !!lm[i] && (lm[i].visibility ?? 1) >= MIN_VISIBILITY
+
+function strokeSegment(ctx: CanvasRenderingContext2D, a: PosePoint, b: PosePoint, size: { width: number; height: number }) {
+  const p = toCanvas(a, size)
+  const q = toCanvas(b, size)
+  ctx.beginPath()
+  ctx.moveTo(p.x, p.y)
+  ctx.lineTo(q.x, q.y)
+  ctx.stroke()
+}
+
+/**
+ * Redraws each rule's segments in green / amber / red. A segment used by several rules
+ * takes the worst state, so an active warning is never hidden by a rule that is fine.
+ */
+export function drawRuleHighlights(
+  ctx: CanvasRenderingContext2D,
+  lm: Landmark[],
+  result: PostureFrameResult,
+  rules: PostureRule[],
+  size: { width: number; height: number }
+) {
+  const segments = new Map<string, { segment: [number, number]; state: RuleState }>()
+  rules.forEach(rule => {
+    if (!rule.segments) return
+    const state = ruleState(result, rule.id)
+    rule.segments(result.orientation).forEach(segment => {
+      const key = segment.join('-')
+      const current = segments.get(key)
+      if (!current || STATE_RANK[state] > STATE_RANK[current.state]) segments.set(key, { segment, state })
+    })
+  })
+  ctx.save()
+  ctx.lineWidth = 5
+  ctx.lineCap = 'round'
+  segments.forEach(({ segment: [a, b], state }) => {
+    if (!visible(lm, a) || !visible(lm, b)) return
+    ctx.strokeStyle = RULE_COLORS[state]
+    strokeSegment(ctx, lm[a], lm[b], size)
+  })
+  ctx.restore()
+}
+
+// The baseline skeleton, so drift from the calibrated posture is visible at a glance
+export function drawBaselineGhost(
+  ctx: CanvasRenderingContext2D,
+  baseline: PostureBaseline,
+  connections: [number, number][],
+  size: { width: number; height: number }
+) {
+  const points = baseline.landmarks
+  if (!points?.length) return
+  ctx.save()
+  ctx.strokeStyle = GHOST_COLOR
+  ctx.lineWidth = 3
+  ctx.setLineDash([6, 4])
+  connections.forEach(([a, b]) => {
+    if (points[a] && points[b]) strokeSegment(ctx, points[a], points[b], size)
+  })
+  ctx.restore()
+}
+
+// Each rule's current diff, placed beside the first joint of its first segment
+export function drawRuleValues(
+  ctx: CanvasRenderingContext2D,
+  lm: Landmark[],
+  result: PostureFrameResult,
+  rules: PostureRule[],
+  size: { width: number; height: number }
+) {
+  if (!result.ruleDiffs) return
+  const placed = new Map<number, number>() // joint → labels already drawn there
+  ctx.save()
+  ctx.font = VALUE_FONT
+  ctx.textBaseline = 'middle'
+  rules.forEach(rule => {
+    const diff = result.ruleDiffs![rule.id]
+    const joint = rule.segments?.(result.orientation)[0]?.[0]
+    if (diff === undefined || joint === undefined || !visible(lm, joint)) return
+    const fmt = VALUE_FORMATS[rule.id]
+    const text = fmt ? `${fmt.name} ${fmt.format(diff, result.orientation)}` : `${rule.id} ${diff.toFixed(2)}`
+    const row = placed.get(joint) ?? 0
+    placed.set(joint, row + 1)
+    const p = toCanvas(lm[joint], size)
+    const x = p.x + 10
+    const y = p.y + row * 16
+    const width = ctx.measureText(text).width
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.55)'
+    ctx.fillRect(x - 3, y - 8, width + 6, 16)
+    ctx.fillStyle = RULE_COLORS[ruleState(result, rule.id)]
+    ctx.fillText(text, x, y)
+  })
+  ctx.restore()
+}
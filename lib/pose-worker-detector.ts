@@ -0,0 +1,95 @@
+// Worker-backed PoseLandmarker: the page only grabs an ImageBitmap of the frame and
+// transfers it; inference runs in lib/pose-worker.ts. Only one frame is ever in flight,
+// so callers that ask for a new frame while the worker is busy have it dropped, not queued.
+
+import type { DetectionResult, DetectorInput, PoseDetector } from "@/lib/pose-detector"
+import { DEFAULT_ASSET_BASE_URL } from "@/lib/mediapipe-assets"
+
+export type WorkerRequest =
+  | { type: 'init'; assetBaseUrl: string }
+  | { type: 'detect'; id: number; bitmap: ImageBitmap; timestamp: number }
+
+export type WorkerResponse =
+  | { type: 'ready' }
+  | ({ type: 'result'; id: number; inferenceMs: number } & DetectionResult)
+  | { type: 'error'; id?: number; message: string }
+
+// GPU inference inside a worker needs OffscreenCanvas; frames are passed as ImageBitmaps
+export const workerDetectionSupported = () =>
+  typeof Worker !== 'undefined' && typeof OffscreenCanvas !== 'undefined' && typeof createImageBitmap !== 'undefined'
+
+// A worker that never answers (e.g. a stalled WASM or model fetch) is given up on, so the
+// caller can fall back to the main thread
+const INIT_TIMEOUT_MS = 20_000
+
+export class FrameDroppedError extends Error {
+  constructor() {
+    super('Frame dropped: worker is still busy with the previous frame')
+    this.name = 'FrameDroppedError'
+  }
+}
+
+export async function createWorkerPoseDetector(opts: { assetBaseUrl?: string } = {}): Promise<PoseDetector> {
+  // Classic (non-module) worker: tasks-vision loads its WASM glue with importScripts
+  const worker = new Worker(new URL('./pose-worker.ts', import.meta.url))
+  const post = (msg: WorkerRequest, transfer: Transferable[] = []) => worker.postMessage(msg, transfer)
+
+  // Relative asset paths would resolve against the worker script URL, so make them absolute
+  const assetBaseUrl = new URL(opts.assetBaseUrl ?? DEFAULT_ASSET_BASE_URL, location.href).href
+  let initTimer: ReturnType<typeof setTimeout> | undefined
+  try {
+    await new Promise<void>((resolve, reject) => {
+      initTimer = setTimeout(() => reject(new Error(`Pose worker did not start within ${INIT_TIMEOUT_MS / 1000} s`)), INIT_TIMEOUT_MS)
+      worker.onmessage = (e: MessageEvent<WorkerResponse>) => {
+        if (e.data.type === 'ready') resolve()
+        else if (e.data.type === 'error') reject(new Error(e.data.message))
+      }
+      worker.onerror = e => reject(new Error(e.message || 'Pose worker failed to start'))
+      post({ type: 'init', assetBaseUrl })
+    })
+  } catch (e) {
+    worker.terminate()
+    throw e
+  } finally {
+    clearTimeout(initTimer)
+  }
+
+  let nextId = 0
+  let pending: { id: number; resolve: (r: DetectionResult) => void; reject: (e: Error) => void } | null = null
+  worker.onmessage = (e: MessageEvent<WorkerResponse>) => {
+    const msg = e.data
+    if (msg.type === 'ready' || !pending || msg.id !== pending.id) return
+    const { resolve, reject } = pending
+    pending = null
+    if (msg.type === 'error') reject(new Error(msg.message))
+    else resolve({ landmarks: msg.landmarks, worldLandmarks: msg.worldLandmarks, inferenceMs: msg.inferenceMs })
+  }
+  worker.onerror = e => {
+    pending?.reject(new Error(e.message || 'Pose worker crashed'))
+    pending = null
+  }
+
+  return {
+    backend: 'tasks',
+    inWorker: true,
+    async detect(image: DetectorInput, timestamp: number) {
+      if (pending) throw new FrameDroppedError()
+      const id = ++nextId
+      const result = new Promise<DetectionResult>((resolve, reject) => { pending = { id, resolve, reject } })
+      try {
+        // A caller-supplied ImageBitmap is transferred, so it is unusable afterwards
+        const bitmap = image instanceof ImageBitmap ? image : await createImageBitmap(image)
+        post({ type: 'detect', id, bitmap, timestamp }, [bitmap])
+      } catch (e) {
+        pending = null
+        throw e
+      }
+      return result
+    },
+    close() {
+      pending?.reject(new Error('Pose worker closed'))
+      pending = null
+      worker.terminate()
+    },
+  }
+}
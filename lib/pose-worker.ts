@@ -0,0 +1,42 @@
+// Worker entry: runs the PoseLandmarker off the main thread. Frames arrive as transferred
+// ImageBitmaps; results are posted back with the time spent in inference.
+// Protocol types live in pose-worker-detector.ts, which owns the worker from the page side.
+
+import { createPoseLandmarkerDetector } from "@/lib/pose-landmarker"
+import type { PoseDetector } from "@/lib/pose-detector"
+import type { WorkerRequest, WorkerResponse } from "@/lib/pose-worker-detector"
+
+// The app compiles against the DOM lib, so describe the bits of the worker scope we use
+const scope = self as unknown as {
+  postMessage(message: WorkerResponse): void
+  addEventListener(type: 'message', listener: (e: MessageEvent<WorkerRequest>) => void): void
+}
+
+let detector: PoseDetector | null = null
+
+scope.addEventListener('message', async e => {
+  const msg = e.data
+  switch (msg.type) {
+    case 'init':
+      try {
+        detector = await createPoseLandmarkerDetector({ assetBaseUrl: msg.assetBaseUrl })
+        scope.postMessage({ type: 'ready' })
+      } catch (err: any) {
+        scope.postMessage({ type: 'error', message: err?.message || 'PoseLandmarker failed to load in worker' })
+      }
+      break
+    case 'detect': {
+      const started = performance.now()
+      try {
+        if (!detector) throw new Error('Worker detector is not initialized')
+        const res = await detector.detect(msg.bitmap, msg.timestamp)
+        scope.postMessage({ type: 'result', id: msg.id, ...res, inferenceMs: performance.now() - started })
+      } catch (err: any) {
+        scope.postMessage({ type: 'error', id: msg.id, message: err?.message || 'Pose detection failed' })
+      } finally {
+        msg.bitmap.close()
+      }
+      break
+    }
+  }
+})
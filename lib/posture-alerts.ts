@@ -0,0 +1,129 @@
+"use client"
+
+import { useCallback, useEffect, useRef, useState } from "react"
+import {
+  AlertEscalator,
+  DEFAULT_ESCALATION_POLICY,
+  type EscalationAction,
+  type EscalationPolicy,
+  type EscalationStage,
+} from "@/lib/alert-escalation"
+import { DEFAULT_ALERT_SOUND, playAlertSound, type AlertSoundSettings } from "@/lib/alert-sound"
+
+export type NotificationPermissionState = NotificationPermission | 'unsupported'
+
+const TICK_MS = 1000
+const APP_TITLE_PREFIX = /^\(\d+\) /
+
+const notificationsSupported = () => typeof window !== 'undefined' && 'Notification' in window
+
+const notify = (warning: string) => {
+  if (!notificationsSupported() || Notification.permission !== 'granted') return
+  try {
+    // One notification per warning type; a repeat replaces the previous one
+    const n = new Notification('Posture-Pal', { body: warning, tag: warning })
+    n.onclick = () => {
+      window.focus()
+      n.close()
+    }
+  } catch (e) {
+    console.warn('Failed to show notification', e)
+  }
+}
+
+/**
+ * Hook: usePostureAlerts
+ * Escalates active warnings from an on-page badge (and a count in the tab title) to a
+ * desktop notification and then a spoken alert or chime, with per-type cooldowns and snoozing.
+ */
+export function usePostureAlerts(
+  warnings: string[],
+  opts: {
+    enabled?: boolean
+    soundEnabled?: boolean
+    policy?: EscalationPolicy
+    sound?: AlertSoundSettings
+  } = {}
+) {
+  const enabled = opts.enabled ?? true
+  const soundEnabled = opts.soundEnabled ?? true
+  const escalatorRef = useRef<AlertEscalator | null>(null)
+  if (!escalatorRef.current) escalatorRef.current = new AlertEscalator()
+  escalatorRef.current.setPolicy(opts.policy ?? DEFAULT_ESCALATION_POLICY)
+
+  const warningsRef = useRef(warnings)
+  warningsRef.current = warnings
+  const soundEnabledRef = useRef(soundEnabled)
+  soundEnabledRef.current = soundEnabled
+  const soundRef = useRef(opts.sound ?? DEFAULT_ALERT_SOUND)
+  soundRef.current = opts.sound ?? DEFAULT_ALERT_SOUND
+
+  const [stages, setStages] = useState<Record<string, EscalationStage>>({})
+  const [snoozedUntil, setSnoozedUntil] = useState<number | null>(null)
+  const [permission, setPermission] = useState<NotificationPermissionState>('unsupported')
+
+  useEffect(() => {
+    if (notificationsSupported()) setPermission(Notification.permission)
+  }, [])
+
+  const requestNotificationPermission = useCallback(async () => {
+    if (!notificationsSupported()) return
+    try {
+      setPermission(await Notification.requestPermission())
+    } catch (e) {
+      console.warn('Notification permission request failed', e)
+    }
+  }, [])
+
+  const perform = useCallback((action: EscalationAction) => {
+    if (action.stage === 'notification') notify(action.warning)
+    else if (soundEnabledRef.current) playAlertSound(action.warning, soundRef.current)
+  }, [])
+
+  useEffect(() => {
+    const escalator = escalatorRef.current!
+    if (!enabled) {
+      escalator.reset()
+      setStages({})
+      setSnoozedUntil(null)
+      return
+    }
+    const tick = () => {
+      const now = Date.now()
+      escalator.update(warningsRef.current, now).forEach(perform)
+      const next = escalator.stages(now)
+      setStages(prev => (JSON.stringify(prev) === JSON.stringify(next) ? prev : next))
+      setSnoozedUntil(escalator.snoozedUntil)
+    }
+    tick()
+    const timer = setInterval(tick, TICK_MS)
+    return () => clearInterval(timer)
+  }, [enabled, perform])
+
+  // Badge stage: active warning count in the tab title, visible while the tab is in the background
+  const activeCount = enabled ? warnings.length : 0
+  useEffect(() => {
+    const base = document.title.replace(APP_TITLE_PREFIX, '')
+    document.title = activeCount > 0 ? `(${activeCount}) ${base}` : base
+  }, [activeCount])
+  useEffect(() => () => { document.title = document.title.replace(APP_TITLE_PREFIX, '') }, [])
+
+  const snooze = useCallback((minutes: number) => {
+    escalatorRef.current!.snooze(minutes * 60_000, Date.now())
+    setSnoozedUntil(escalatorRef.current!.snoozedUntil)
+  }, [])
+
+  const unsnooze = useCallback(() => {
+    escalatorRef.current!.unsnooze()
+    setSnoozedUntil(null)
+  }, [])
+
+  return {
+    stages, // highest escalation stage reached per active warning
+    snoozedUntil,
+    snooze,
+    unsnooze,
+    notificationPermission: permission,
+    requestNotificationPermission,
+  }
+}
@@ -0,0 +1,337 @@
+import { describe, expect, it } from "vitest"
+import {
+  BUILT_IN_RULES,
+  computeBaseline,
+  computeDiffs,
+  computeMetrics,
+  PostureEngine,
+  sensitivityToRule,
+  type Landmark,
+  type PostureRuleId,
+} from "@/lib/posture-engine"
+
+// Seated left-profile pose: ear straight above the shoulders, nose slightly ahead of the ear
+function leftProfile(overrides: Partial<Record<number, Partial<Landmark>>> = {}): Landmark[] {
+  const lm: Landmark[] = Array.from({ length: 33 }, () => ({ x: 0.5, y: 0.5, z: 0, visibility: 1 }))
+  lm[0] = { x: 0.45, y: 0.3, z: 0, visibility: 1 } // nose
+  lm[7] = { x: 0.5, y: 0.3, z: 0, visibility: 1 } // left ear
+  lm[8] = { x: 0.5, y: 0.3, z: 0.1, visibility: 0.2 } // right ear, hidden
+  lm[11] = { x: 0.5, y: 0.5, z: -0.1, visibility: 1 } // left shoulder, near the camera
+  lm[12] = { x: 0.5, y: 0.5, z: 0.1, visibility: 1 } // right shoulder
+  lm[23] = { x: 0.5, y: 0.8, z: 0, visibility: 1 } // left hip
+  lm[24] = { x: 0.5, y: 0.8, z: 0.1, visibility: 1 }
+  lm[25] = { x: 0.35, y: 0.82, z: 0, visibility: 1 } // knees level with the hips: sitting
+  lm[26] = { x: 0.35, y: 0.82, z: 0.1, visibility: 1 }
+  Object.entries(overrides).forEach(([i, p]) => { lm[Number(i)] = { ...lm[Number(i)], ...p } })
+  return lm
+}
+
+// Face-on pose with level shoulders 0.2 apart
+function frontal(): Landmark[] {
+  const lm: Landmark[] = Array.from({ length: 33 }, () => ({ x: 0.5, y: 0.5, z: 0, visibility: 1 }))
+  lm[0] = { x: 0.5, y: 0.32, z: -0.1, visibility: 1 }
+  lm[7] = { x: 0.55, y: 0.3, z: 0, visibility: 1 }
+  lm[8] = { x: 0.45, y: 0.3, z: 0, visibility: 1 }
+  lm[11] = { x: 0.6, y: 0.5, z: 0, visibility: 1 }
+  lm[12] = { x: 0.4, y: 0.5, z: 0, visibility: 1 }
+  return lm
+}
+
+const FRAME_MS = 1000 / 30
+
+// Leaning forward: the ear moves 0.03 ahead of the shoulders, three times the strict threshold
+const LEANING = { 0: { x: 0.42 }, 7: { x: 0.47 } }
+
+function engineWithBaseline(opts: ConstructorParameters<typeof PostureEngine>[0] = {}) {
+  const engine = new PostureEngine({ orientation: 'left', smoothing: { type: 'none' }, ...opts })
+  engine.setBaseline(computeBaseline(leftProfile(), 'left'))
+  return engine
+}
+
+// Feeds the same pose at 30 fps from `start` for `ms`; returns the last result
+function run(engine: PostureEngine, lm: Landmark[] | null, ms: number, start = 0) {
+  let result = engine.process(lm, start)
+  for (let t = start + FRAME_MS; t <= start + ms; t += FRAME_MS) result = engine.process(lm, t)
+  return result
+}
+
+const builtIn = (id: PostureRuleId) => BUILT_IN_RULES.find(rule => rule.id === id)!
+
+describe("sensitivityToRule", () => {
+  it("uses the original hard-coded thresholds and 90% of the window at 100", () => {
+    const forward = sensitivityToRule(builtIn('forward'), 100)
+    expect(forward.threshold).toBeCloseTo(0.01)
+    expect(forward.requiredBadRatio).toBeCloseTo(0.9)
+    expect(sensitivityToRule(builtIn('side'), 100).threshold).toBeCloseTo(0.05)
+    expect(sensitivityToRule(builtIn('head'), 100).threshold).toBeCloseTo(10)
+  })
+
+  it("uses the lenient ends at 0", () => {
+    const forward = sensitivityToRule(builtIn('forward'), 0)
+    expect(forward.threshold).toBe(0.05)
+    expect(forward.requiredBadRatio).toBe(0.99)
+    expect(sensitivityToRule(builtIn('side'), 0).threshold).toBe(0.15)
+    expect(sensitivityToRule(builtIn('head'), 0).threshold).toBe(30)
+  })
+
+  it("interpolates between the ends", () => {
+    const rule = sensitivityToRule(builtIn('head'), 50)
+    expect(rule.threshold).toBeCloseTo(20)
+    expect(rule.requiredBadRatio).toBeCloseTo(0.945)
+  })
+
+  it("clamps out-of-range values and treats NaN as the default", () => {
+    const forward = builtIn('forward')
+    expect(sensitivityToRule(forward, -20)).toEqual(sensitivityToRule(forward, 0))
+    expect(sensitivityToRule(forward, 250)).toEqual(sensitivityToRule(forward, 100))
+    expect(sensitivityToRule(forward, NaN)).toEqual(sensitivityToRule(forward, 100))
+    expect(sensitivityToRule(forward, Infinity)).toEqual(sensitivityToRule(forward, 100))
+  })
+
+  it("picks the range for the orientation", () => {
+    expect(sensitivityToRule(builtIn('side'), 100, 'front').threshold).toBeCloseTo(4)
+    expect(sensitivityToRule(builtIn('side'), 100, 'right').threshold).toBeCloseTo(0.05)
+  })
+})
+
+describe("computeMetrics", () => {
+  it("measures the left profile from the left ear, far shoulder and left hip", () => {
+    const m = computeMetrics(leftProfile({ 7: { x: 0.48, z: 0.05 } }), 'left')
+    expect(m.head_forward).toBeCloseTo(0.02)
+    expect(m.head_side_slouch).toBeCloseTo(0.05)
+    expect(m.face_size).toBeCloseTo(0.03)
+    expect(m.head_height).toBeCloseTo(0.3)
+  })
+
+  it("mirrors the profile metrics for the right side", () => {
+    const lm = leftProfile()
+    lm[8] = { x: 0.52, y: 0.3, z: 0, visibility: 1 }
+    lm[24] = { x: 0.5, y: 0.8, z: 0.04, visibility: 1 }
+    const m = computeMetrics(lm, 'right')
+    expect(m.head_forward).toBeCloseTo(-0.02) // left shoulder x − right ear x
+    expect(m.head_side_slouch).toBeCloseTo(0.04)
+    expect(m.head_height).toBeCloseTo(0.3)
+  })
+
+  it("scales the frontal metrics by shoulder width", () => {
+    const m = computeMetrics(frontal(), 'front')
+    expect(m.head_forward).toBeCloseTo(1) // 0.2 from ears to shoulders over 0.2 width
+    expect(m.head_side_slouch).toBeCloseTo(0)
+    expect(m.head_angle).toBeCloseTo(0.1)
+    expect(m.face_size).toBeCloseTo(0.1)
+  })
+})
+
+describe("computeDiffs", () => {
+  it("compares each metric with the baseline", () => {
+    const base = computeBaseline(leftProfile(), 'left')
+    const diffs = computeDiffs(computeMetrics(leftProfile({ 7: { x: 0.47, y: 0.33 } }), 'left'), base)
+    expect(diffs.forwardDiff).toBeCloseTo(0.03)
+    expect(diffs.heightDiff).toBeCloseTo(0.03)
+    expect(diffs.sideDiff).toBeCloseTo(0)
+  })
+
+  it("ignores moving back from the screen and sitting up taller", () => {
+    const base = computeBaseline(leftProfile(), 'left')
+    const diffs = computeDiffs(computeMetrics(leftProfile({ 0: { x: 0.48, y: 0.25 }, 7: { y: 0.25 } }), 'left'), base)
+    expect(diffs.distanceDiff).toBe(0)
+    expect(diffs.heightDiff).toBe(0)
+  })
+
+  it("skips the screen checks for baselines without their metrics", () => {
+    const { face_size, head_height, ...base } = computeBaseline(leftProfile(), 'left')
+    const diffs = computeDiffs(computeMetrics(leftProfile({ 0: { x: 0.3 }, 7: { y: 0.4 } }), 'left'), base)
+    expect(diffs.distanceDiff).toBe(0)
+    expect(diffs.heightDiff).toBe(0)
+  })
+})
+
+describe("PostureEngine", () => {
+  it("does not flag or warn without a baseline", () => {
+    const engine = new PostureEngine({ orientation: 'left', smoothing: { type: 'none' } })
+    const result = run(engine, leftProfile(LEANING), 5000)
+    expect(result.baselineSet).toBe(false)
+    expect(result.diffs).toBeNull()
+    expect(result.warnings).toEqual([])
+    expect(result.score).toBe(100)
+  })
+
+  it("flags each frame but only warns once the window has filled", () => {
+    const engine = engineWithBaseline()
+    const lm = leftProfile(LEANING)
+    let result = engine.process(lm, 0)
+    expect(result.flags.forward).toBe(true)
+    expect(result.warnings).toEqual([])
+
+    let firedAt: number | null = null
+    for (let t = FRAME_MS; t <= 4000 && firedAt === null; t += FRAME_MS) {
+      result = engine.process(lm, t)
+      if (result.warnings.length) firedAt = t
+    }
+    // 90% of the 3 s window must be covered first
+    expect(firedAt).toBeGreaterThanOrEqual(2700)
+    expect(firedAt).toBeLessThan(3000)
+    expect(result.windows.forward.fill).toBeGreaterThanOrEqual(0.9)
+    expect(result.warnings.map(w => w.ruleId)).toEqual(['forward'])
+    expect(result.warnings[0]).toMatchObject({ label: 'Forward lean detected', since: firedAt })
+  })
+
+  it("keeps the warning's start time while it stays active", () => {
+    const engine = engineWithBaseline()
+    const lm = leftProfile(LEANING)
+    const first = run(engine, lm, 3000).warnings[0].since
+    expect(run(engine, lm, 2000, 3000 + FRAME_MS).warnings[0].since).toBe(first)
+  })
+
+  it("does not warn when good frames break up the window", () => {
+    const engine = engineWithBaseline()
+    const bad = leftProfile(LEANING)
+    const good = leftProfile()
+    let result = engine.process(good, 0)
+    for (let i = 1; i * FRAME_MS <= 5000; i++) result = engine.process(i % 4 === 0 ? good : bad, i * FRAME_MS)
+    expect(result.warnings).toEqual([])
+  })
+
+  it("deducts from the score in proportion to how far past the threshold a metric is", () => {
+    const engine = engineWithBaseline()
+    expect(run(engine, leftProfile(), 1000).score).toBe(100)
+
+    // forward diff 0.015 is half way to saturation at twice the 0.01 threshold
+    const result = run(engine, leftProfile({ 7: { x: 0.485 }, 0: { x: 0.435 } }), 4000, 1000 + FRAME_MS)
+    expect(result.subScores.forward).toBe(50)
+    expect(result.subScores.side).toBe(100)
+    // forward has weight 20 of 70
+    expect(result.score).toBe(Math.round((20 * 50 + 50 * 100) / 70))
+  })
+
+  it("applies a sensitivity change on the next frame", () => {
+    const engine = engineWithBaseline({ sensitivity: { forward: 100 } })
+    const lm = leftProfile(LEANING)
+    expect(engine.process(lm, 0).flags.forward).toBe(true)
+
+    // 0.03 is under the lenient 0.05 threshold
+    engine.setSensitivity({ forward: 0 })
+    const result = engine.process(lm, FRAME_MS)
+    expect(result.flags.forward).toBe(false)
+    expect(result.ruleDiffs!.forward).toBeCloseTo(0.03)
+
+    engine.setSensitivity({ forward: 100 })
+    expect(engine.process(lm, 2 * FRAME_MS).flags.forward).toBe(true)
+  })
+
+  it("reports the severity from the sub-score", () => {
+    const engine = engineWithBaseline()
+    expect(run(engine, leftProfile(LEANING), 4000).warnings[0].severity).toBe('severe')
+  })
+
+  it("clears the windows and warnings when the baseline is replaced", () => {
+    const engine = engineWithBaseline()
+    const lm = leftProfile(LEANING)
+    expect(run(engine, lm, 3000).warnings).toHaveLength(1)
+
+    engine.setBaseline(computeBaseline(leftProfile(), 'left'))
+    const result = engine.process(lm, 3000 + FRAME_MS)
+    expect(result.warnings).toEqual([])
+    expect(result.windows.forward.coveredMs).toBe(0)
+  })
+
+  it("stops analysing once the baseline is cleared", () => {
+    const engine = engineWithBaseline()
+    run(engine, leftProfile(LEANING), 3000)
+    engine.reset()
+    const result = engine.process(leftProfile(LEANING), 3000 + FRAME_MS)
+    expect(result.baselineSet).toBe(false)
+    expect(result.warnings).toEqual([])
+    expect(result.score).toBe(100)
+  })
+
+  it("reports nobody in frame as absent and drops the warnings", () => {
+    const engine = engineWithBaseline()
+    expect(run(engine, leftProfile(LEANING), 3000).warnings).toHaveLength(1)
+
+    const result = engine.process(null, 3000 + FRAME_MS)
+    expect(result.presence).toBe('absent')
+    expect(result.metrics).toBeNull()
+    expect(result.warnings).toEqual([])
+    expect(engine.process([], 3000 + 2 * FRAME_MS).presence).toBe('absent')
+  })
+
+  it("keeps partially visible frames out of the windows and holds the score", () => {
+    const engine = engineWithBaseline()
+    const leaning = run(engine, leftProfile(LEANING), 1500)
+
+    const hidden = leftProfile({ ...LEANING, 7: { x: 0.47, visibility: 0.1 } })
+    const result = run(engine, hidden, 3000, 1500 + FRAME_MS)
+    expect(result.presence).toBe('partial')
+    expect(result.metrics).toBeNull()
+    expect(result.score).toBe(leaning.score)
+    expect(result.warnings).toEqual([])
+    // Only the visible frames still in the window count
+    expect(result.windows.forward.coveredMs).toBe(0)
+  })
+
+  it("keeps the windows when the same rules are set again", () => {
+    const engine = engineWithBaseline()
+    const lm = leftProfile(LEANING)
+    let result = engine.process(lm, 0)
+    for (let t = FRAME_MS; t <= 3000; t += FRAME_MS) {
+      engine.setRules([...BUILT_IN_RULES])
+      result = engine.process(lm, t)
+    }
+    expect(result.warnings.map(w => w.ruleId)).toEqual(['forward'])
+  })
+
+  it("starts only added or replaced rules over", () => {
+    const engine = engineWithBaseline()
+    const lm = leftProfile(LEANING)
+    const before = run(engine, lm, 3000)
+    const custom = { id: 'custom', label: 'Custom', measure: () => 1, threshold: { lenient: 1, strict: 1 } }
+    engine.registerRule(custom)
+    engine.registerRule({ ...builtIn('side') })
+
+    const result = engine.process(lm, 3000 + FRAME_MS)
+    expect(result.warnings.map(w => w.ruleId)).toEqual(['forward'])
+    expect(result.warnings[0].since).toBe(before.warnings[0].since)
+    // Only the newest frame counts for the replaced rule; the custom one has no baseline value
+    expect(result.windows.side.coveredMs).toBeLessThan(100)
+    expect(result.windows.forward.coveredMs).toBeGreaterThan(2700)
+    expect(result.windows.custom.coveredMs).toBe(0)
+
+    engine.unregisterRule('custom')
+    expect(engine.process(lm, 3000 + 2 * FRAME_MS).windows.custom).toBeUndefined()
+  })
+
+  it("fills the windows when the detector only manages a frame every 600 ms", () => {
+    const engine = engineWithBaseline()
+    const lm = leftProfile(LEANING)
+    let warned = 0
+    for (let t = 0; t <= 60_000; t += 600) if (engine.process(lm, t).warnings.length) warned++
+    expect(warned).toBeGreaterThan(90)
+  })
+
+  it("does not let repeated pauses stretch the gap limit", () => {
+    const engine = engineWithBaseline({ alertDelays: { forward: 60 } })
+    const lm = leftProfile(LEANING)
+    let result = run(engine, lm, 1000)
+    let t = result.timestamp
+    const covered = result.windows.forward.coveredMs
+    let frames = 0
+    // Then short pauses, each followed by a frame 30 fps later
+    for (let cycle = 0; cycle < 20; cycle++) {
+      t += 600
+      engine.process(lm, t)
+      result = engine.process(lm, (t += FRAME_MS))
+      frames++
+    }
+    expect(result.windows.forward.coveredMs).toBeCloseTo(covered + frames * FRAME_MS)
+  })
+
+  it("does not credit a pause to the windows", () => {
+    // A long window, so nothing from before the pause drops out of it
+    const engine = engineWithBaseline({ alertDelays: { forward: 10 } })
+    const lm = leftProfile(LEANING)
+    const before = run(engine, lm, 2000)
+    const result = engine.process(lm, 4000)
+    expect(result.windows.forward.coveredMs).toBe(before.windows.forward.coveredMs)
+  })
+})
@@ -0,0 +1,807 @@
+// Framework-free posture analysis: metrics, baseline diffs, sliding windows and scoring.
+// Everything here works on plain landmark arrays so it can run outside React / MediaPipe.
+
+import { DEFAULT_SMOOTHING, LandmarkSmoother, type SmoothingSettings } from "@/lib/smoothing"
+
+export type Landmark = {
+  x: number
+  y: number
+  z: number
+  visibility?: number
+}
+
+export type PostureMetrics = {
+  head_forward: number
+  head_side_slouch: number
+  head_angle: number
+  face_size: number // apparent head size (ear to ear face-on, ear to nose in profile); grows closer to the camera
+  head_height: number // ear height in the image, 0 at the top; the camera sits at the monitor
+}
+
+// Where the camera sits relative to the user: seeing their left profile, right profile, or face-on
+export type CameraOrientation = 'left' | 'right' | 'front'
+export type OrientationSetting = CameraOrientation | 'auto'
+
+export type Stance = 'sitting' | 'standing'
+
+// Baselines remember the orientation and stance they were captured in; older ones without
+// them are 'left' and 'sitting'. Baselines from before the screen-distance and head-height
+// checks lack those metrics, and the checks stay quiet for them.
+export type PostureBaseline = Omit<PostureMetrics, 'face_size' | 'head_height'>
+  & Partial<Pick<PostureMetrics, 'face_size' | 'head_height'>>
+  & {
+    orientation?: CameraOrientation
+    stance?: Stance
+    rules?: Record<string, number> // values of registered rules that have no built-in metric
+    landmarks?: PosePoint[] // 2D pose at capture, drawn as a ghost on the overlay
+  }
+
+export type PosePoint = { x: number; y: number }
+
+// Pair of landmark indices drawn as one line on the overlay
+export type LandmarkSegment = [number, number]
+
+// Ids of the built-in rules; registered rules may use any other id
+export type PostureRuleId = 'forward' | 'side' | 'head' | 'distance' | 'height'
+
+// present: all key points clearly visible; partial: someone is there but key points are
+// occluded or off-frame; absent: no pose detected at all
+export type Presence = 'present' | 'partial' | 'absent'
+
+// Per-rule sensitivity on the 0–100 "Lenient → Strict" slider scale, keyed by rule id
+export type PostureSensitivity = Partial<Record<string, number>>
+
+export type SensitivityRule = {
+  threshold: number
+  requiredBadRatio: number // share of the window's time that must be bad, 0–1
+}
+
+// Seconds of (mostly) bad posture before each warning fires, overriding the rule's own window
+export type PostureAlertDelays = Partial<Record<string, number>>
+
+export type PostureDiffs = {
+  forwardDiff: number
+  sideDiff: number
+  angleDiff: number
+  distanceDiff: number // relative growth of face_size, 0.2 = 20% closer-looking than the baseline
+  heightDiff: number // head drop below the baseline height, as a fraction of the frame height
+}
+
+export type PostureWeights = Partial<Record<string, number>>
+
+// 0–100 per rule: 100 means it stayed within its threshold over the score window
+export type PostureSubScores = Record<string, number>
+
+export type ThresholdRange = { lenient: number; strict: number }
+
+// What a rule gets to measure on each frame with the key points visible
+export type RuleFrame = {
+  landmarks: Landmark[] // smoothed
+  orientation: CameraOrientation
+  metrics: PostureMetrics // built-in metrics of the same landmarks
+}
+
+/**
+ * A posture check. Each frame the engine measures the rule's metric, compares it with the
+ * same metric in the baseline and flags the frame when the difference passes the threshold
+ * picked by the 0–100 sensitivity; the warning fires once enough of the window is flagged.
+ */
+export type PostureRule = {
+  id: string
+  label: string // warning text; also keys alert phrases and session history
+  measure: (frame: RuleFrame) => number | null // null when it cannot be measured on this frame
+  // The metric in a stored baseline; by default the value captured into `baseline.rules[id]`
+  baselineValue?: (baseline: PostureBaseline) => number | undefined
+  // How far off the value is, larger is worse (default: absolute difference)
+  diff?: (value: number, baseline: number) => number
+  threshold: ThresholdRange | ((orientation: CameraOrientation) => ThresholdRange)
+  window?: {
+    delayS?: number // default DEFAULT_ALERT_DELAY_S
+    requiredBadRatio?: ThresholdRange // share of the window that must be bad (default 0.99–0.9)
+  }
+  weight?: number // in the overall score (default DEFAULT_RULE_WEIGHT)
+  segments?: (orientation: CameraOrientation) => LandmarkSegment[] // highlighted on the overlay
+}
+
+export type WarningSeverity = 'mild' | 'moderate' | 'severe'
+
+export type PostureWarning = {
+  ruleId: string
+  label: string
+  severity: WarningSeverity // from the rule's sub-score: how far past its threshold it is
+  since: number // when it started firing, on the timestamp clock passed to `process`
+}
+
+export type WindowState = {
+  badMs: number // time spent over the threshold within the window
+  coveredMs: number // time with usable frames within the window
+  fill: number // 0–1, coveredMs relative to the window length
+}
+
+export type PostureFrameResult = {
+  timestamp: number
+  orientation: CameraOrientation
+  presence: Presence
+  stance: Stance
+  metrics: PostureMetrics | null // from smoothed landmarks
+  baselineSet: boolean
+  diffs: PostureDiffs | null // built-in metrics, smoothed
+  rawDiffs: PostureDiffs | null // same diffs without smoothing, for comparison
+  ruleDiffs: Record<string, number> | null // what each rule's threshold saw; missing if unmeasurable
+  flags: Record<string, boolean>
+  windows: Record<string, WindowState>
+  warnings: PostureWarning[]
+  score: number // weighted mean of the sub-scores
+  subScores: PostureSubScores
+}
+
+// The Python version used 100-frame windows; at 30 fps that is about 3 s
+export const DEFAULT_ALERT_DELAY_S = 3
+// Screen distance and head height are about habits rather than momentary slouching, so they
+// look at longer stretches of time by default
+export const DEFAULT_ALERT_DELAYS: Record<PostureRuleId, number> = {
+  forward: DEFAULT_ALERT_DELAY_S,
+  side: DEFAULT_ALERT_DELAY_S,
+  head: DEFAULT_ALERT_DELAY_S,
+  distance: 10,
+  height: 30,
+}
+// A gap between frames longer than this (pause, partial visibility, dropped frames) is not
+// credited to either side of the window, unless the detector is simply running that slowly
+const MAX_SAMPLE_GAP_MS = 500
+// Gaps of up to this many typical frame intervals still count as consecutive frames, so
+// machines that only manage a frame or two per second can fill the windows
+const MAX_SAMPLE_GAP_FRAMES = 2
+// Weight of the newest gap in the typical frame interval. Gaps the windows discard (pauses)
+// are left out of it, and the first gap only sets it if it is shorter than MAX_FRAME_INTERVAL_MS.
+const FRAME_INTERVAL_ALPHA = 0.1
+const MAX_FRAME_INTERVAL_MS = 2000
+// Share of the window that must be covered by frames before a warning can fire
+const MIN_WINDOW_COVERAGE = 0.9
+const DEFAULT_SENSITIVITY = 100
+
+// Diff thresholds at either end of the slider, per orientation since the metric units differ.
+// For profile views 100 (strict) matches the original hard-coded values.
+// Distance and height diffs are relative to the baseline, so they share one range.
+const ERGONOMIC_THRESHOLDS = {
+  distance: { lenient: 0.35, strict: 0.1 },
+  height: { lenient: 0.12, strict: 0.03 },
+}
+const PROFILE_THRESHOLDS: Record<PostureRuleId, { lenient: number; strict: number }> = {
+  forward: { lenient: 0.05, strict: 0.01 },
+  side: { lenient: 0.15, strict: 0.05 },
+  head: { lenient: 30, strict: 10 },
+  ...ERGONOMIC_THRESHOLDS,
+}
+const THRESHOLD_RANGES: Record<CameraOrientation, Record<PostureRuleId, { lenient: number; strict: number }>> = {
+  left: PROFILE_THRESHOLDS,
+  right: PROFILE_THRESHOLDS,
+  front: {
+    forward: { lenient: 0.15, strict: 0.05 }, // neck height, in shoulder widths
+    side: { lenient: 10, strict: 4 }, // shoulder line tilt, degrees
+    head: { lenient: 0.15, strict: 0.05 }, // nose drop below the ears, in shoulder widths
+    ...ERGONOMIC_THRESHOLDS,
+  },
+}
+const REQUIRED_BAD_RANGE = { lenient: 0.99, strict: 0.9 }
+
+const STANCES: Stance[] = ['sitting', 'standing']
+
+// MediaPipe Pose landmark indices
+const NOSE = 0
+const LEFT_EAR = 7
+const RIGHT_EAR = 8
+const LEFT_SHOULDER = 11
+const RIGHT_SHOULDER = 12
+const LEFT_HIP = 23
+const RIGHT_HIP = 24
+const LEFT_KNEE = 25
+const RIGHT_KNEE = 26
+
+// Landmarks the metrics depend on for each orientation
+const KEY_POINTS: Record<CameraOrientation, number[]> = {
+  left: [NOSE, LEFT_EAR, LEFT_SHOULDER, RIGHT_SHOULDER, LEFT_HIP],
+  right: [NOSE, RIGHT_EAR, LEFT_SHOULDER, RIGHT_SHOULDER, RIGHT_HIP],
+  front: [NOSE, LEFT_EAR, RIGHT_EAR, LEFT_SHOULDER, RIGHT_SHOULDER],
+}
+export const MIN_VISIBILITY = 0.5
+
+export const WARNING_LABELS: Record<PostureRuleId, string> = {
+  forward: 'Forward lean detected',
+  side: 'Side lean detected',
+  head: 'Head lowered detected',
+  distance: 'Too close to screen',
+  height: 'Head dropped below screen',
+}
+
+// Relative weight of each metric in the overall score (same ratio as the original 20/15/15
+// deductions); the ergonomic checks count for less
+const DEFAULT_WEIGHTS: Record<PostureRuleId, number> = {
+  forward: 20,
+  side: 15,
+  head: 15,
+  distance: 10,
+  height: 10,
+}
+export const DEFAULT_RULE_WEIGHT = 10
+// Penalties are averaged over this much recent time, so the score moves smoothly
+export const SCORE_WINDOW_MS = 3000
+// How far past the threshold (in multiples of the threshold) a metric loses all its points
+const PENALTY_SATURATION = 1
+
+// 0 at or below the threshold, rising linearly to 1 at threshold × (1 + PENALTY_SATURATION)
+export const metricPenalty = (diff: number, threshold: number) =>
+  threshold > 0 ? Math.min(1, Math.max(0, (diff - threshold) / (threshold * PENALTY_SATURATION))) : 0
+
+// Sub-score at or below which an active warning counts as moderate / severe
+const MODERATE_SUB_SCORE = 67
+const SEVERE_SUB_SCORE = 33
+
+export const warningSeverity = (subScore: number): WarningSeverity =>
+  subScore <= SEVERE_SUB_SCORE ? 'severe' : subScore <= MODERATE_SUB_SCORE ? 'moderate' : 'mild'
+
+/**
+ * Maps a 0–100 sensitivity value to the rule's diff threshold and the share of the
+ * alert window that must be bad before the warning fires.
+ */
+export function sensitivityToRule(
+  rule: PostureRule,
+  value: number = DEFAULT_SENSITIVITY,
+  orientation: CameraOrientation = 'left'
+): SensitivityRule {
+  const t = Math.min(100, Math.max(0, Number.isFinite(value) ? value : DEFAULT_SENSITIVITY)) / 100
+  const range = typeof rule.threshold === 'function' ? rule.threshold(orientation) : rule.threshold
+  const ratio = rule.window?.requiredBadRatio ?? REQUIRED_BAD_RANGE
+  return {
+    threshold: range.lenient + (range.strict - range.lenient) * t,
+    requiredBadRatio: ratio.lenient + (ratio.strict - ratio.lenient) * t,
+  }
+}
+
+// Angle at p2 formed by p1-p2-p3, in degrees
+export function angleBetween(p1: Landmark, p2: Landmark, p3: Landmark) {
+  const v1 = [p1.x - p2.x, p1.y - p2.y]
+  const v2 = [p3.x - p2.x, p3.y - p2.y]
+  const dot = v1[0] * v2[0] + v1[1] * v2[1]
+  const mag1 = Math.hypot(...v1)
+  const mag2 = Math.hypot(...v2)
+  if (!mag1 || !mag2) return 0
+  const cos = Math.min(1, Math.max(-1, dot / (mag1 * mag2)))
+  return (Math.acos(cos) * 180) / Math.PI
+}
+
+export function keyPointsVisible(lm: Landmark[], orientation: CameraOrientation = 'left', minVisibility = MIN_VISIBILITY) {
+  return KEY_POINTS[orientation].every(i => lm[i] && (lm[i].visibility ?? 1) >= minVisibility)
+}
+
+export function detectPresence(lm: Landmark[] | null | undefined, orientation: CameraOrientation = 'left'): Presence {
+  if (!lm || lm.length === 0) return 'absent'
+  if (keyPointsVisible(lm, orientation)) return 'present'
+  return lm.some(p => (p.visibility ?? 1) >= MIN_VISIBILITY) ? 'partial' : 'absent'
+}
+
+/**
+ * Guesses the camera placement from the shoulders: face-on they are spread out in x,
+ * in profile they overlap in x and separate in depth, with the near shoulder at smaller z.
+ */
+export function detectOrientation(lm: Landmark[]): CameraOrientation {
+  const ls = lm[LEFT_SHOULDER]
+  const rs = lm[RIGHT_SHOULDER]
+  if (!ls || !rs) return 'left'
+  const dx = Math.abs(ls.x - rs.x)
+  const dz = Math.abs(ls.z - rs.z)
+  if (dx >= dz) return 'front'
+  return ls.z < rs.z ? 'left' : 'right'
+}
+
+export const resolveOrientation = (setting: OrientationSetting, lm: Landmark[]): CameraOrientation =>
+  setting === 'auto' ? detectOrientation(lm) : setting
+
+// Thigh drop (hip → knee, vertical) relative to torso length (shoulder → hip). Seated, the
+// thigh is roughly horizontal in profile and foreshortened face-on, so the ratio is small.
+const STANDING_MIN_THIGH_RATIO = 0.6
+const SITTING_MAX_THIGH_RATIO = 0.35
+// A new stance has to hold this long before the engine switches to it
+export const STANCE_SWITCH_MS = 2000
+
+/**
+ * Classifies sitting vs standing from the hip/knee/shoulder geometry of the better-visible
+ * side. Returns null when the knees are out of frame or the pose is in between.
+ */
+export function classifyStance(lm: Landmark[]): Stance | null {
+  const sides = [
+    [LEFT_SHOULDER, LEFT_HIP, LEFT_KNEE],
+    [RIGHT_SHOULDER, RIGHT_HIP, RIGHT_KNEE],
+  ].filter(side => side.every(i => lm[i] && (lm[i].visibility ?? 1) >= MIN_VISIBILITY))
+  if (!sides.length) return null
+  const [shoulder, hip, knee] = sides
+    .map(side => side.map(i => lm[i]))
+    .sort((a, b) => Math.min(...b.map(p => p.visibility ?? 1)) - Math.min(...a.map(p => p.visibility ?? 1)))[0]
+  const torso = hip.y - shoulder.y
+  if (torso <= 0) return null
+  const ratio = (knee.y - hip.y) / torso
+  if (ratio >= STANDING_MIN_THIGH_RATIO) return 'standing'
+  if (ratio <= SITTING_MAX_THIGH_RATIO) return 'sitting'
+  return null
+}
+
+// Metric definitions per orientation. Profile views keep the original Python formulas
+// (mirrored for the right side); the frontal view uses shoulder width as its scale.
+export function computeMetrics(lm: Landmark[], orientation: CameraOrientation = 'left'): PostureMetrics {
+  const nose = lm[NOSE]
+  if (orientation === 'front') {
+    const le = lm[LEFT_EAR], re = lm[RIGHT_EAR]
+    const ls = lm[LEFT_SHOULDER], rs = lm[RIGHT_SHOULDER]
+    const shoulderWidth = Math.hypot(ls.x - rs.x, ls.y - rs.y) || 1
+    const earMidY = (le.y + re.y) / 2
+    const shoulderMidY = (ls.y + rs.y) / 2
+    return {
+      head_forward: (shoulderMidY - earMidY) / shoulderWidth,
+      head_side_slouch: (Math.atan2(ls.y - rs.y, Math.abs(ls.x - rs.x)) * 180) / Math.PI,
+      head_angle: (nose.y - earMidY) / shoulderWidth,
+      face_size: Math.hypot(le.x - re.x, le.y - re.y),
+      head_height: earMidY,
+    }
+  }
+  const right = orientation === 'right'
+  const ear = lm[right ? RIGHT_EAR : LEFT_EAR]
+  const nearShoulder = lm[right ? RIGHT_SHOULDER : LEFT_SHOULDER]
+  const farShoulder = lm[right ? LEFT_SHOULDER : RIGHT_SHOULDER]
+  const hip = lm[right ? RIGHT_HIP : LEFT_HIP]
+  return {
+    head_forward: farShoulder.x - ear.x,
+    head_side_slouch: Math.abs(ear.z - hip.z),
+    head_angle: angleBetween(nearShoulder, ear, nose),
+    face_size: Math.hypot(ear.x - nose.x, ear.y - nose.y),
+    head_height: ear.y,
+  }
+}
+
+// Rounded so stored baselines stay small; far below a pixel at webcam resolutions
+const roundCoord = (v: number) => Math.round(v * 10000) / 10000
+
+export const posePoints = (lm: PosePoint[]): PosePoint[] => lm.map(p => ({ x: roundCoord(p.x), y: roundCoord(p.y) }))
+
+export function computeBaseline(lm: Landmark[], orientation: CameraOrientation = 'left', stance: Stance = 'sitting'): PostureBaseline {
+  return { ...computeMetrics(lm, orientation), orientation, stance, landmarks: posePoints(lm) }
+}
+
+// One-sided: moving back from the screen or sitting up taller is never a problem
+const growth = (value: number, base: number) => (base ? Math.max(0, value / base - 1) : 0)
+const drop = (value: number, base: number) => Math.max(0, value - base)
+
+export function computeDiffs(metrics: PostureMetrics, base: PostureBaseline): PostureDiffs {
+  return {
+    forwardDiff: Math.abs(metrics.head_forward - base.head_forward),
+    sideDiff: Math.abs(metrics.head_side_slouch - base.head_side_slouch),
+    angleDiff: Math.abs(metrics.head_angle - base.head_angle),
+    distanceDiff: base.face_size !== undefined ? growth(metrics.face_size, base.face_size) : 0,
+    heightDiff: base.head_height !== undefined ? drop(metrics.head_height, base.head_height) : 0,
+  }
+}
+
+// Profile segments for the camera-side ear, shoulder and hip
+const profileSegments = (ear: number, shoulder: number, hip: number): Record<PostureRuleId, LandmarkSegment[]> => ({
+  forward: [[ear, shoulder]],
+  side: [[ear, shoulder], [shoulder, hip]],
+  head: [[shoulder, ear], [ear, NOSE]],
+  distance: [[ear, NOSE]],
+  height: [[ear, shoulder]],
+})
+
+// The landmarks each built-in metric is computed from
+const SEGMENTS: Record<CameraOrientation, Record<PostureRuleId, LandmarkSegment[]>> = {
+  left: profileSegments(LEFT_EAR, LEFT_SHOULDER, LEFT_HIP),
+  right: profileSegments(RIGHT_EAR, RIGHT_SHOULDER, RIGHT_HIP),
+  front: {
+    forward: [[LEFT_EAR, LEFT_SHOULDER], [RIGHT_EAR, RIGHT_SHOULDER]],
+    side: [[LEFT_SHOULDER, RIGHT_SHOULDER]],
+    head: [[LEFT_EAR, NOSE], [RIGHT_EAR, NOSE]],
+    distance: [[LEFT_EAR, RIGHT_EAR]],
+    height: [[LEFT_EAR, LEFT_SHOULDER], [RIGHT_EAR, RIGHT_SHOULDER]],
+  },
+}
+
+const builtInRule = (
+  id: PostureRuleId,
+  key: keyof PostureMetrics,
+  diff?: (value: number, base: number) => number
+): PostureRule => ({
+  id,
+  label: WARNING_LABELS[id],
+  measure: frame => frame.metrics[key],
+  baselineValue: base => base[key],
+  diff,
+  threshold: orientation => THRESHOLD_RANGES[orientation][id],
+  window: { delayS: DEFAULT_ALERT_DELAYS[id] },
+  weight: DEFAULT_WEIGHTS[id],
+  segments: orientation => SEGMENTS[orientation][id],
+})
+
+export const BUILT_IN_RULES: PostureRule[] = [
+  builtInRule('forward', 'head_forward'),
+  builtInRule('side', 'head_side_slouch'),
+  builtInRule('head', 'head_angle'),
+  builtInRule('distance', 'face_size', growth),
+  builtInRule('height', 'head_height', drop),
+]
+
+// Baseline values for the rules that have no built-in metric, measured on one frame
+export function measureRuleBaselines(rules: PostureRule[], lm: Landmark[], orientation: CameraOrientation) {
+  const frame = { landmarks: lm, orientation, metrics: computeMetrics(lm, orientation) }
+  const values: Record<string, number> = {}
+  rules.forEach(rule => {
+    if (rule.baselineValue) return
+    const value = rule.measure(frame)
+    if (value !== null && Number.isFinite(value)) values[rule.id] = value
+  })
+  return values
+}
+
+// Null when the rule cannot be evaluated: not measurable on this frame, or not in the baseline
+function ruleDiff(rule: PostureRule, frame: RuleFrame, base: PostureBaseline) {
+  const value = rule.measure(frame)
+  const baseValue = rule.baselineValue ? rule.baselineValue(base) : base.rules?.[rule.id]
+  if (value === null || baseValue === undefined || !Number.isFinite(value)) return null
+  return rule.diff ? rule.diff(value, baseValue) : Math.abs(value - baseValue)
+}
+
+export const perfectSubScores = (rules: PostureRule[]): PostureSubScores =>
+  Object.fromEntries(rules.map(rule => [rule.id, 100]))
+
+type WindowSample = { t: number; duration: number; bad: boolean }
+
+/**
+ * Stateful analysis over a stream of landmark frames. Holds the baseline, the rules
+ * (BUILT_IN_RULES plus any registered ones) and one time-based sliding window per
+ * rule; `process` is called once per detector result with its timestamp in
+ * milliseconds. Each frame is credited with the time since the previous one, so the
+ * alert delay does not depend on the frame rate. Frames without clearly visible key
+ * points never enter the windows, and the windows are cleared when nobody is in
+ * frame so stale warnings do not linger.
+ */
+export class PostureEngine {
+  // One baseline and rule set per stance; the current stance picks which one applies
+  private baselinesValue: Record<Stance, PostureBaseline | null> = { sitting: null, standing: null }
+  private sensitivities: Record<Stance, PostureSensitivity>
+  private stanceValue: Stance
+  private stanceCandidate: { stance: Stance; since: number } | null = null
+  private stanceDetection: boolean
+  private rulesValue: PostureRule[]
+  private windows: Record<string, WindowSample[]> = {}
+  private warningSince: Record<string, number> = {}
+  private lastSampleAt: number | null = null
+  private lastFrameAt: number | null = null
+  private frameIntervalMs: number | null = null // typical gap between detector results
+  private alertDelaysValue: PostureAlertDelays
+  private penalties: { t: number; values: Record<string, number> }[] = []
+  private lastScore = 100
+  private lastSubScores: PostureSubScores
+  private weightsValue: PostureWeights
+  private orientationSetting: OrientationSetting
+  private smoothingValue: SmoothingSettings
+  private smoother: LandmarkSmoother
+
+  constructor(opts: {
+    sensitivity?: PostureSensitivity
+    standingSensitivity?: PostureSensitivity // defaults to `sensitivity`
+    baseline?: PostureBaseline | null
+    baselines?: Partial<Record<Stance, PostureBaseline | null>>
+    stance?: Stance
+    stanceDetection?: boolean // switch stance automatically from the landmarks (default true)
+    orientation?: OrientationSetting
+    smoothing?: SmoothingSettings
+    weights?: PostureWeights
+    alertDelays?: PostureAlertDelays
+    rules?: PostureRule[] // replaces the built-in set; default BUILT_IN_RULES
+  } = {}) {
+    this.rulesValue = opts.rules ?? BUILT_IN_RULES
+    this.lastSubScores = perfectSubScores(this.rulesValue)
+    const sensitivity = opts.sensitivity ?? {}
+    this.sensitivities = { sitting: sensitivity, standing: opts.standingSensitivity ?? sensitivity }
+    this.alertDelaysValue = opts.alertDelays ?? {}
+    this.weightsValue = opts.weights ?? {}
+    this.baselinesValue = { sitting: null, standing: null, ...opts.baselines }
+    if (opts.baseline) this.baselinesValue[opts.baseline.stance ?? 'sitting'] = opts.baseline
+    this.stanceValue = opts.stance ?? 'sitting'
+    this.stanceDetection = opts.stanceDetection ?? true
+    this.orientationSetting = opts.orientation ?? 'auto'
+    this.smoothingValue = opts.smoothing ?? DEFAULT_SMOOTHING
+    this.smoother = new LandmarkSmoother(this.smoothingValue)
+  }
+
+  get smoothing() {
+    return this.smoothingValue
+  }
+
+  // Filter state is only rebuilt when the settings actually change
+  setSmoothing(settings: SmoothingSettings) {
+    if (JSON.stringify(settings) === JSON.stringify(this.smoothingValue)) return
+    this.smoothingValue = settings
+    this.smoother = new LandmarkSmoother(settings)
+  }
+
+  get orientation() {
+    return this.orientationSetting
+  }
+
+  /**
+   * Changing to a fixed orientation that differs from a baseline's drops that baseline,
+   * since its metrics are not comparable. Returns true if the current baseline was cleared.
+   */
+  setOrientation(setting: OrientationSetting) {
+    this.orientationSetting = setting
+    if (setting === 'auto') return false
+    let cleared = false
+    STANCES.forEach(stance => {
+      const base = this.baselinesValue[stance]
+      if (!base || (base.orientation ?? 'left') === setting) return
+      this.baselinesValue[stance] = null
+      if (stance === this.stanceValue) {
+        this.resetWindows()
+        cleared = true
+      }
+    })
+    return cleared
+  }
+
+  get stance() {
+    return this.stanceValue
+  }
+
+  setStanceDetection(enabled: boolean) {
+    this.stanceDetection = enabled
+    this.stanceCandidate = null
+  }
+
+  // Baseline for the current stance
+  get baseline() {
+    return this.baselinesValue[this.stanceValue]
+  }
+
+  get baselines() {
+    return { ...this.baselinesValue }
+  }
+
+  get sensitivity() {
+    return this.sensitivities[this.stanceValue]
+  }
+
+  sensitivityFor(stance: Stance) {
+    return this.sensitivities[stance]
+  }
+
+  // Without a stance the sensitivity applies to both
+  setSensitivity(sensitivity: PostureSensitivity, stance?: Stance) {
+    if (stance) this.sensitivities[stance] = sensitivity
+    else this.sensitivities = { sitting: sensitivity, standing: sensitivity }
+  }
+
+  get rules() {
+    return this.rulesValue
+  }
+
+  // Rules that stay the same keep their windows; added, replaced and removed rules start over
+  setRules(rules: PostureRule[]) {
+    const previous = new Map(this.rulesValue.map(rule => [rule.id, rule]))
+    const kept = new Set(rules.filter(rule => previous.get(rule.id) === rule).map(rule => rule.id))
+    this.rulesValue = rules
+    const keep = <T>(byRule: Record<string, T>) =>
+      Object.fromEntries(Object.entries(byRule).filter(([id]) => kept.has(id)))
+    this.windows = keep(this.windows)
+    this.warningSince = keep(this.warningSince)
+    this.penalties = this.penalties.map(p => ({ t: p.t, values: keep(p.values) }))
+    this.lastSubScores = { ...perfectSubScores(rules), ...keep(this.lastSubScores) }
+  }
+
+  // Adds a rule, replacing any rule with the same id
+  registerRule(rule: PostureRule) {
+    this.setRules([...this.rulesValue.filter(r => r.id !== rule.id), rule])
+  }
+
+  unregisterRule(id: string) {
+    this.setRules(this.rulesValue.filter(r => r.id !== id))
+  }
+
+  get alertDelays() {
+    return this.alertDelaysValue
+  }
+
+  setAlertDelays(delays: PostureAlertDelays) {
+    this.alertDelaysValue = delays
+  }
+
+  get weights() {
+    return this.weightsValue
+  }
+
+  setWeights(weights: PostureWeights) {
+    this.weightsValue = weights
+  }
+
+  // Stores the baseline for the stance it was captured in; null clears the current stance's
+  setBaseline(baseline: PostureBaseline | null) {
+    const stance = baseline ? baseline.stance ?? 'sitting' : this.stanceValue
+    this.baselinesValue[stance] = baseline
+    if (stance === this.stanceValue) this.resetWindows()
+  }
+
+  clearBaselines() {
+    this.baselinesValue = { sitting: null, standing: null }
+    this.resetWindows()
+  }
+
+  // Captures for the stance seen in `lm` and switches to it, since the user is evidently in it
+  captureBaseline(lm: Landmark[]) {
+    const stance = classifyStance(lm) ?? this.stanceValue
+    const orientation = resolveOrientation(this.orientationSetting, lm)
+    const baseline: PostureBaseline = computeBaseline(lm, orientation, stance)
+    const rules = measureRuleBaselines(this.rulesValue, lm, orientation)
+    if (Object.keys(rules).length) baseline.rules = rules
+    this.switchStance(stance)
+    this.setBaseline(baseline)
+    return baseline
+  }
+
+  resetWindows() {
+    this.windows = {}
+    this.warningSince = {}
+    this.lastSampleAt = null
+    this.penalties = []
+    this.smoother.reset()
+  }
+
+  reset() {
+    this.clearBaselines()
+    this.stanceValue = 'sitting'
+    this.stanceCandidate = null
+    this.lastScore = 100
+    this.lastSubScores = perfectSubScores(this.rulesValue)
+    this.lastFrameAt = null
+    this.frameIntervalMs = null
+  }
+
+  // `lm` may be null or empty when the detector found nobody
+  process(lm: Landmark[] | null, timestamp: number): PostureFrameResult {
+    this.trackFrameInterval(timestamp)
+    if (this.stanceDetection && lm && lm.length) this.updateStance(lm, timestamp)
+    const stance = this.stanceValue
+    const base = this.baselinesValue[stance]
+    // Once a baseline exists its orientation wins, so metrics stay comparable
+    const orientation = base
+      ? base.orientation ?? 'left'
+      : lm && lm.length ? resolveOrientation(this.orientationSetting, lm) : this.orientationSetting === 'auto' ? 'left' : this.orientationSetting
+    const presence = detectPresence(lm, orientation)
+    if (presence === 'absent') this.resetWindows()
+    // Smoothing restarts after any gap so the filters never bridge frames where the user was not seen
+    if (presence !== 'present') this.smoother.reset()
+    const rawMetrics = presence === 'present' ? computeMetrics(lm!, orientation) : null
+    const smoothed = presence === 'present' ? (this.smoother.enabled ? this.smoother.smooth(lm!, timestamp) : lm!) : null
+    const metrics = smoothed ? (this.smoother.enabled ? computeMetrics(smoothed, orientation) : rawMetrics) : null
+    const rules = this.rulesValue
+    const thresholds: Record<string, SensitivityRule> = {}
+    rules.forEach(rule => { thresholds[rule.id] = sensitivityToRule(rule, this.sensitivities[stance][rule.id], orientation) })
+
+    const flags: Record<string, boolean> = {}
+    rules.forEach(rule => { flags[rule.id] = false })
+    let diffs: PostureDiffs | null = null
+    let rawDiffs: PostureDiffs | null = null
+    let ruleDiffs: Record<string, number> | null = null
+    if (base && metrics && rawMetrics && smoothed) {
+      diffs = computeDiffs(metrics, base)
+      rawDiffs = computeDiffs(rawMetrics, base)
+      const gap = this.lastSampleAt === null ? Infinity : timestamp - this.lastSampleAt
+      const duration = gap >= 0 && gap <= this.maxSampleGapMs() ? gap : 0
+      this.lastSampleAt = timestamp
+      const frame: RuleFrame = { landmarks: smoothed, orientation, metrics }
+      const measured: Record<string, number> = {}
+      rules.forEach(rule => {
+        const diff = ruleDiff(rule, frame, base)
+        if (diff === null) return
+        measured[rule.id] = diff
+        flags[rule.id] = diff > thresholds[rule.id].threshold
+        ;(this.windows[rule.id] ??= []).push({ t: timestamp, duration, bad: flags[rule.id] })
+      })
+      ruleDiffs = measured
+    }
+
+    // Scoring pauses (holds the last value) while the key points are not visible
+    let score = this.lastScore
+    let subScores = this.lastSubScores
+    if (metrics && !base) {
+      score = 100
+      subScores = perfectSubScores(rules)
+    } else if (ruleDiffs) {
+      const values: Record<string, number> = {}
+      rules.forEach(rule => {
+        const diff = ruleDiffs![rule.id]
+        values[rule.id] = diff === undefined ? 0 : metricPenalty(diff, thresholds[rule.id].threshold)
+      })
+      this.penalties.push({ t: timestamp, values })
+      while (this.penalties.length && this.penalties[0].t <= timestamp - SCORE_WINDOW_MS) this.penalties.shift()
+      ;({ score, subScores } = this.scoreWindow())
+    }
+    this.lastScore = score
+    this.lastSubScores = subScores
+
+    const windows: Record<string, WindowState> = {}
+    const warnings: PostureWarning[] = []
+    rules.forEach(rule => {
+      const windowMs = this.alertDelayMs(rule)
+      const w = this.windows[rule.id] ?? []
+      while (w.length && w[0].t <= timestamp - windowMs) w.shift()
+      let badMs = 0
+      let coveredMs = 0
+      w.forEach(s => {
+        coveredMs += s.duration
+        if (s.bad) badMs += s.duration
+      })
+      const fill = Math.min(1, coveredMs / windowMs)
+      windows[rule.id] = { badMs, coveredMs, fill }
+      if (fill >= MIN_WINDOW_COVERAGE && badMs >= thresholds[rule.id].requiredBadRatio * coveredMs) {
+        const since = (this.warningSince[rule.id] ??= timestamp)
+        warnings.push({ ruleId: rule.id, label: rule.label, severity: warningSeverity(subScores[rule.id] ?? 100), since })
+      } else {
+        delete this.warningSince[rule.id]
+      }
+    })
+
+    return { timestamp, orientation, presence, stance, metrics, baselineSet: !!base, diffs, rawDiffs, ruleDiffs, flags, windows, warnings, score, subScores }
+  }
+
+  private scoreWindow() {
+    const subScores: PostureSubScores = {}
+    let weighted = 0
+    let totalWeight = 0
+    this.rulesValue.forEach(rule => {
+      const avg = this.penalties.reduce((a, p) => a + (p.values[rule.id] ?? 0), 0) / this.penalties.length
+      subScores[rule.id] = Math.round(100 * (1 - avg))
+      const weight = Math.max(0, this.weightsValue[rule.id] ?? rule.weight ?? DEFAULT_RULE_WEIGHT)
+      weighted += weight * subScores[rule.id]
+      totalWeight += weight
+    })
+    const score = totalWeight > 0 ? Math.round(weighted / totalWeight) : 100
+    return { score, subScores }
+  }
+
+  // Debounced: a new stance must be classified consistently for STANCE_SWITCH_MS
+  private updateStance(lm: Landmark[], timestamp: number) {
+    const seen = classifyStance(lm)
+    if (!seen || seen === this.stanceValue) {
+      this.stanceCandidate = null
+      return
+    }
+    if (this.stanceCandidate?.stance !== seen) {
+      this.stanceCandidate = { stance: seen, since: timestamp }
+      return
+    }
+    if (timestamp - this.stanceCandidate.since >= STANCE_SWITCH_MS) this.switchStance(seen)
+  }
+
+  private switchStance(stance: Stance) {
+    this.stanceCandidate = null
+    if (stance === this.stanceValue) return
+    this.stanceValue = stance
+    this.resetWindows()
+  }
+
+  // Counts every detector result, visible or not, so partial frames do not look like a slow detector
+  private trackFrameInterval(timestamp: number) {
+    const gap = this.lastFrameAt === null ? null : timestamp - this.lastFrameAt
+    this.lastFrameAt = timestamp
+    if (gap === null || gap <= 0) return
+    if (gap > (this.frameIntervalMs === null ? MAX_FRAME_INTERVAL_MS : this.maxSampleGapMs())) return
+    this.frameIntervalMs = this.frameIntervalMs === null
+      ? gap
+      : this.frameIntervalMs + FRAME_INTERVAL_ALPHA * (gap - this.frameIntervalMs)
+  }
+
+  private maxSampleGapMs() {
+    return Math.max(MAX_SAMPLE_GAP_MS, MAX_SAMPLE_GAP_FRAMES * (this.frameIntervalMs ?? 0))
+  }
+
+  private alertDelayMs(rule: PostureRule) {
+    const seconds = this.alertDelaysValue[rule.id]
+    return (seconds !== undefined && seconds > 0 ? seconds : rule.window?.delayS ?? DEFAULT_ALERT_DELAY_S) * 1000
+  }
+}
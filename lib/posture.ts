@@ -1,99 +1,500 @@
 "use client"
 
 import { useEffect, useRef, useState, useCallback } from "react"
+import {
+  BUILT_IN_RULES,
+  perfectSubScores,
+  PostureEngine,
+  type CameraOrientation,
+  type Landmark,
+  type OrientationSetting,
+  type PostureAlertDelays,
+  type PostureBaseline,
+  type PostureFrameResult,
+  type PostureRule,
+  type PostureSensitivity,
+  type PostureSubScores,
+  type PostureWeights,
+  type PostureWarning,
+  type Presence,
+  type Stance,
+} from "@/lib/posture-engine"
+import { createPoseDetector, type DetectorBackend, type PoseDetector } from "@/lib/pose-detector"
+import { FrameDroppedError } from "@/lib/pose-worker-detector"
+import { FrameRateController, type PerformanceTelemetry } from "@/lib/frame-rate"
+import { LandmarkRecorder, restoreRecordingBaselines, type LandmarkRecording } from "@/lib/landmark-recording"
+import { analyzeVideo, type VideoAnalysisState } from "@/lib/video-analysis"
+import { BaselineCalibrator, type CalibrationState } from "@/lib/calibration"
+import { DEFAULT_SMOOTHING, type SmoothingSettings } from "@/lib/smoothing"
+import { DEFAULT_OVERLAY, drawBaselineGhost, drawRuleHighlights, drawRuleValues, type OverlayOptions } from "@/lib/pose-overlay"
+
+export { BUILT_IN_RULES, DEFAULT_ALERT_DELAYS, sensitivityToRule, WARNING_LABELS } from "@/lib/posture-engine"
+export type {
+  CameraOrientation,
+  OrientationSetting,
+  PostureAlertDelays,
+  PostureRule,
+  PostureRuleId,
+  PostureSensitivity,
+  PostureSubScores,
+  PostureWarning,
+  PostureWeights,
+  RuleFrame,
+  SensitivityRule,
+  Stance,
+  WarningSeverity,
+} from "@/lib/posture-engine"
+export type { DetectorBackend } from "@/lib/pose-detector"
+export type { PerformanceTelemetry } from "@/lib/frame-rate"
+export type { SmoothingSettings } from "@/lib/smoothing"
+export type { OverlayOptions } from "@/lib/pose-overlay"
 
 // Public status shape
 export type PostureStatus = {
   score: number
-  warnings: string[]
+  subScores: PostureSubScores // per-metric 0–100, combined into `score` by the weights
+  warnings: PostureWarning[] // `since` is a Date.now() timestamp here
+  presence: Presence
+  orientation: CameraOrientation
+  stance: Stance // picks which baseline and sensitivity apply
+  // Smoothed diffs (what the thresholds use); `unsmoothed` holds the same frame without smoothing
   raw: {
     forwardDiff?: number
     sideDiff?: number
     angleDiff?: number
+    distanceDiff?: number
+    heightDiff?: number
+    unsmoothed?: {
+      forwardDiff: number
+      sideDiff: number
+      angleDiff: number
+      distanceDiff: number
+      heightDiff: number
+    }
+  }
+}
+
+const initialStatus = (rules: PostureRule[]): PostureStatus =>
+  ({ score: 100, subScores: perfectSubScores(rules), warnings: [], presence: 'absent', orientation: 'left', stance: 'sitting', raw: {} })
+
+// Skeleton edges as index pairs, taken from the package of the backend in use
+async function loadPoseConnections(backend: DetectorBackend): Promise<[number, number][]> {
+  if (backend === 'tasks') {
+    const { PoseLandmarker } = await import('@mediapipe/tasks-vision')
+    return PoseLandmarker.POSE_CONNECTIONS.map(({ start, end }) => [start, end])
   }
+  const mp = await import('@mediapipe/pose')
+  return (mp as any).POSE_CONNECTIONS
 }
 
+const activeRules = (customRules?: PostureRule[]) => (customRules?.length ? [...BUILT_IN_RULES, ...customRules] : BUILT_IN_RULES)
+
 /**
  * Hook: usePostureMonitor
- * Wraps MediaPipe Pose in the browser, reproducing Python logic (baseline diffs + sliding windows).
+ * Runs a pose detector (PoseLandmarker, or legacy MediaPipe Pose as fallback) in the browser
+ * and feeds each result through a PostureEngine (baseline diffs + sliding windows, reproducing the Python logic).
  */
 export function usePostureMonitor(
   videoEl: HTMLVideoElement | null,
   isActive: boolean,
   isPaused: boolean,
-  opts: { fps?: number; overlayCanvas?: HTMLCanvasElement | null; resetOnStop?: boolean } = {}
+  opts: {
+    fps?: number
+    overlayCanvas?: HTMLCanvasElement | null
+    resetOnStop?: boolean
+    rules?: PostureRule[] // extra rules on top of BUILT_IN_RULES; windows restart only for rules that change
+    sensitivity?: PostureSensitivity
+    standingSensitivity?: PostureSensitivity // rules while standing; defaults to `sensitivity`
+    stanceDetection?: boolean // switch between sitting and standing baselines automatically (default true)
+    weights?: PostureWeights // relative weight of each metric in the overall score
+    alertDelays?: PostureAlertDelays // seconds of bad posture before each warning (DEFAULT_ALERT_DELAYS)
+    orientation?: OrientationSetting
+    smoothing?: SmoothingSettings // landmark filter applied before thresholding (default One Euro)
+    detector?: DetectorBackend | 'auto'
+    assetBaseUrl?: string // where MediaPipe WASM/model files are served; defaults to the local copies
+    worker?: boolean // run PoseLandmarker inference in a Web Worker when supported (default true)
+    adaptiveFps?: boolean // lower the capture rate below `fps` when detection cannot keep up (default true)
+    minFps?: number
+    adaptModelComplexity?: boolean // once at `minFps`, also drop to a lighter model (legacy backend only)
+    onLandmarks?: (lm: Landmark[] | null, ts: number) => void // every detector result, after the posture analysis
+    overlay?: Partial<OverlayOptions> // what to draw over the skeleton (default: rule highlights only)
+    drawOverlayExtras?: (ctx: CanvasRenderingContext2D, size: { width: number; height: number }) => void // drawn over the skeleton
+  } = {}
 ) {
-  const poseRef = useRef<any | null>(null)
-  const lastLandmarksRef = useRef<any[] | null>(null)
-  const baselineRef = useRef<{
-    head_forward: number
-    head_side_slouch: number
-    head_angle: number
-  } | null>(null)
+  const detectorRef = useRef<PoseDetector | null>(null)
+  const [detectorBackend, setDetectorBackend] = useState<DetectorBackend | null>(null)
+  const detectorPreference = opts.detector ?? 'auto'
+  const assetBaseUrl = opts.assetBaseUrl
+  const useWorker = opts.worker ?? true
+  const [detectorInWorker, setDetectorInWorker] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [telemetry, setTelemetry] = useState<PerformanceTelemetry | null>(null)
+  const lastLandmarksRef = useRef<Landmark[] | null>(null)
+  const lastWorldLandmarksRef = useRef<Landmark[] | null>(null)
+  const engineRef = useRef<PostureEngine | null>(null)
+  if (!engineRef.current) engineRef.current = new PostureEngine()
+  // Applied on every render so slider changes take effect without reinitialising Pose
+  engineRef.current.setSensitivity(opts.sensitivity ?? {}, 'sitting')
+  engineRef.current.setSensitivity(opts.standingSensitivity ?? opts.sensitivity ?? {}, 'standing')
+  engineRef.current.setStanceDetection(opts.stanceDetection ?? true)
+  engineRef.current.setWeights(opts.weights ?? {})
+  engineRef.current.setAlertDelays(opts.alertDelays ?? {})
+  engineRef.current.setSmoothing(opts.smoothing ?? DEFAULT_SMOOTHING)
 
-  // Sliding window logic mirrors Python's constants
-  const WINDOW_SIZE = 100
-  const REQUIRED_BAD = 90
-  const slouchWindow = useRef<number[]>([])
-  const sideWindow = useRef<number[]>([])
-  const headWindow = useRef<number[]>([])
+  const [status, setStatus] = useState<PostureStatus>(() => initialStatus(activeRules(opts.rules)))
 
-  const [status, setStatus] = useState<PostureStatus>({ score: 100, warnings: [], raw: {} })
+  // The engine keeps the windows of rule objects that did not change, so a new array holding
+  // the same rules costs nothing
+  const customRules = opts.rules
+  useEffect(() => {
+    const rules = activeRules(customRules)
+    engineRef.current!.setRules(rules)
+    // Same object when the ids are unchanged, so a new array per render does not loop
+    setStatus(s => {
+      const ids = Object.keys(s.subScores)
+      if (ids.length === rules.length && rules.every(rule => rule.id in s.subScores)) return s
+      const subScores = perfectSubScores(rules)
+      rules.forEach(rule => { subScores[rule.id] = s.subScores[rule.id] ?? 100 })
+      return { ...s, subScores }
+    })
+  }, [customRules])
+  // Engine timestamps come from the detector; warnings are reported with wall-clock start times
+  const warningClockRef = useRef<Record<string, { since: number; at: number }>>({})
   const [baselineSet, setBaselineSet] = useState(false)
+  const [baseline, setBaselineState] = useState<PostureBaseline | null>(null)
+  const stanceRef = useRef<Stance>('sitting')
+
+  // 'auto' detects the camera placement when the baseline is captured
+  const orientationSetting = opts.orientation ?? 'auto'
+  useEffect(() => {
+    if (engineRef.current!.setOrientation(orientationSetting)) {
+      setBaselineState(null)
+      setBaselineSet(false)
+      setStatus(s => ({ ...s, warnings: [] }))
+    }
+  }, [orientationSetting])
 
   const targetFPS = opts.fps ?? 30
+  const adaptiveFps = opts.adaptiveFps ?? true
+  const minFps = opts.minFps ?? 5
+  const adaptModelComplexity = opts.adaptModelComplexity ?? false
   const resetOnStop = opts.resetOnStop ?? true
-  const frameInterval = 1000 / targetFPS
   const lastFrameTs = useRef(0)
+  const frameRateRef = useRef<FrameRateController | null>(null)
+  const onBatteryRef = useRef(false)
   const overlayCanvasRef = useRef<HTMLCanvasElement | null>(null)
   overlayCanvasRef.current = opts.overlayCanvas ?? null
+  const onLandmarksRef = useRef(opts.onLandmarks)
+  onLandmarksRef.current = opts.onLandmarks
+  const drawExtrasRef = useRef(opts.drawOverlayExtras)
+  drawExtrasRef.current = opts.drawOverlayExtras
+  const overlayOptionsRef = useRef<OverlayOptions>(DEFAULT_OVERLAY)
+  overlayOptionsRef.current = { ...DEFAULT_OVERLAY, ...opts.overlay }
 
   const drawingUtilsRef = useRef<{
+    backend: DetectorBackend
     drawConnectors: Function
     drawLandmarks: Function
+    connections: [number, number][]
   } | null>(null)
 
-  const angleBetween = (p1: any, p2: any, p3: any) => {
-    const v1 = [p1.x - p2.x, p1.y - p2.y]
-    const v2 = [p3.x - p2.x, p3.y - p2.y]
-    const dot = v1[0] * v2[0] + v1[1] * v2[1]
-    const mag1 = Math.hypot(...v1)
-    const mag2 = Math.hypot(...v2)
-    if (!mag1 || !mag2) return 0
-    const cos = Math.min(1, Math.max(-1, dot / (mag1 * mag2)))
-    return (Math.acos(cos) * 180) / Math.PI
-  }
+  const recorderRef = useRef<LandmarkRecorder | null>(null)
+  const [isRecording, setIsRecording] = useState(false)
+  const replayTokenRef = useRef<{ cancelled: boolean } | null>(null)
+  const [isReplaying, setIsReplaying] = useState(false)
+  const analysisTokenRef = useRef<{ cancelled: boolean } | null>(null)
+  const [videoAnalysis, setVideoAnalysis] = useState<VideoAnalysisState | null>(null)
+  const calibratorRef = useRef<BaselineCalibrator | null>(null)
+  const calibrationTimerRef = useRef<ReturnType<typeof setInterval> | null>(null)
+  const [calibration, setCalibration] = useState<CalibrationState | null>(null)
 
-  const computeBaseline = useCallback((lm: any[]) => {
-    if (!lm) return
-    const nose = lm[0]
-    const leftEar = lm[7]
-    const rightShoulder = lm[12]
-    const leftShoulder = lm[11]
-    const leftHip = lm[23]
-    const head_forward = rightShoulder.x - leftEar.x
-    const head_side_slouch = Math.abs(leftEar.z - leftHip.z)
-    const head_angle = angleBetween(leftShoulder, leftEar, nose)
-    baselineRef.current = { head_forward, head_side_slouch, head_angle }
-    setBaselineSet(true)
-    // Reset windows & warnings
-    slouchWindow.current = []
-    sideWindow.current = []
-    headWindow.current = []
-    setStatus(s => ({ ...s, warnings: [] }))
+  // Replays have no live detector, so they draw with the default backend's connections
+  const ensureDrawingUtils = useCallback(async (backend: DetectorBackend = 'tasks') => {
+    if (drawingUtilsRef.current?.backend === backend) return
+    try {
+      const [du, connections] = await Promise.all([import('@mediapipe/drawing_utils'), loadPoseConnections(backend)])
+      drawingUtilsRef.current = {
+        backend,
+        drawConnectors: du.drawConnectors,
+        drawLandmarks: du.drawLandmarks,
+        connections,
+      }
+    } catch (e) {
+      console.warn('Failed to load drawing utils', e)
+    }
   }, [])
 
-  const pushWindow = (ref: React.MutableRefObject<number[]>, v: number) => {
-    if (ref.current.length >= WINDOW_SIZE) ref.current.shift()
-    ref.current.push(v)
-  }
+  // Clears the overlay when `lm` is null so the skeleton does not freeze after the user leaves
+  const drawOverlay = useCallback((lm: Landmark[] | null, size: { width: number; height: number }, result: PostureFrameResult) => {
+    const overlay = overlayCanvasRef.current
+    if (!overlay || !drawingUtilsRef.current) return
+    const ctx = overlay.getContext('2d')
+    if (!ctx) return
+    // Ensure canvas matches underlying video size
+    if (size.width > 0 && (overlay.width !== size.width || overlay.height !== size.height)) {
+      overlay.width = size.width
+      overlay.height = size.height
+    }
+    ctx.save()
+    ctx.clearRect(0,0, overlay.width, overlay.height)
+    try {
+      const options = overlayOptionsRef.current
+      const engine = engineRef.current!
+      const canvasSize = { width: overlay.width, height: overlay.height }
+      const baseline = engine.baseline
+      if (options.ghost && baseline) {
+        drawBaselineGhost(ctx, baseline, drawingUtilsRef.current.connections, canvasSize)
+      }
+      if (lm) {
+        drawingUtilsRef.current.drawConnectors(ctx, lm, drawingUtilsRef.current.connections, { color: '#ffffffff', lineWidth: 2 })
+        drawingUtilsRef.current.drawLandmarks(ctx, lm, { color: '#ff0a0aff', radius: 1 })
+        if (result.baselineSet && options.highlights) drawRuleHighlights(ctx, lm, result, engine.rules, canvasSize)
+        if (result.baselineSet && options.values) drawRuleValues(ctx, lm, result, engine.rules, canvasSize)
+      }
+      drawExtrasRef.current?.(ctx, canvasSize)
+    } catch (e) {
+      // Avoid spamming if drawing fails
+    }
+    ctx.restore()
+  }, [])
+
+  // Shared by the live detector and recording replay so both go through the same analysis
+  // `lm` is null when the detector found nobody in frame
+  const handleLandmarks = useCallback((frame: Landmark[] | null, ts: number, size: { width: number; height: number }) => {
+    const lm = frame && frame.length ? frame : null
+    if (lm) lastLandmarksRef.current = lm
+    recorderRef.current?.push(lm ?? [], ts, size)
+    if (lm) calibratorRef.current?.add(lm)
+    // We still draw landmarks even if baseline not yet set
+    const result = engineRef.current!.process(lm, ts)
+    const warnings = result.warnings.map(w => {
+      let clock = warningClockRef.current[w.ruleId]
+      if (clock?.since !== w.since) {
+        clock = { since: w.since, at: Date.now() - (ts - w.since) }
+        warningClockRef.current[w.ruleId] = clock
+      }
+      return { ...w, since: clock.at }
+    })
+    if (result.stance !== stanceRef.current) {
+      // Each stance has its own baseline (possibly none yet)
+      stanceRef.current = result.stance
+      setBaselineState(engineRef.current!.baseline)
+      setBaselineSet(result.baselineSet)
+    }
+    setStatus(s => {
+      if (!result.baselineSet) {
+        if (s.presence === result.presence && s.orientation === result.orientation && s.stance === result.stance) return s
+        return { ...s, presence: result.presence, orientation: result.orientation, stance: result.stance, warnings: [] }
+      }
+      return {
+        ...s,
+        presence: result.presence,
+        orientation: result.orientation,
+        stance: result.stance,
+        score: result.score,
+        subScores: result.subScores,
+        warnings,
+        raw: result.diffs ? { ...result.diffs, unsmoothed: result.rawDiffs ?? undefined } : s.raw,
+      }
+    })
+    onLandmarksRef.current?.(lm, ts)
+    drawOverlay(result.presence === 'absent' ? null : lm, size, result)
+  }, [drawOverlay])
+
+  // Mirrors the engine's baseline for the current stance into state
+  const syncBaseline = useCallback(() => {
+    const engine = engineRef.current!
+    stanceRef.current = engine.stance
+    setBaselineState(engine.baseline)
+    setBaselineSet(!!engine.baseline)
+    setStatus(s => ({ ...s, stance: engine.stance, warnings: [] }))
+  }, [])
+
+  // Applies an externally stored baseline (e.g. a saved profile) to the stance it was captured in;
+  // null clears the current stance's baseline
+  const setBaseline = useCallback((next: PostureBaseline | null) => {
+    engineRef.current!.setBaseline(next)
+    if (next) recorderRef.current?.markBaseline(next, performance.now())
+    syncBaseline()
+  }, [syncBaseline])
+
+  // Drops both stances' baselines, e.g. before applying a profile so no stance keeps the previous one
+  const clearBaselines = useCallback(() => {
+    engineRef.current!.clearBaselines()
+    syncBaseline()
+  }, [syncBaseline])
 
-  const captureBaseline = useCallback(() => {
-    if (lastLandmarksRef.current) computeBaseline(lastLandmarksRef.current)
+  const computeBaseline = useCallback((lm: Landmark[]) => {
+    if (!lm) return null
+    const baseline = engineRef.current!.captureBaseline(lm)
+    recorderRef.current?.markBaseline(baseline, performance.now())
+    syncBaseline()
+    return baseline
+  }, [syncBaseline])
+
+  // Returns the captured baseline so callers can persist it
+  const captureBaseline = useCallback((): PostureBaseline | null => {
+    if (!lastLandmarksRef.current) return null
+    return computeBaseline(lastLandmarksRef.current)
   }, [computeBaseline])
 
   const clearWarnings = () => setStatus(s => ({ ...s, warnings: [] }))
 
+  const cancelCalibration = useCallback(() => {
+    if (calibrationTimerRef.current) clearInterval(calibrationTimerRef.current)
+    calibrationTimerRef.current = null
+    calibratorRef.current = null
+    setCalibration(null)
+  }, [])
+
+  /**
+   * Guided calibration: a countdown to get into position, then `durationMs` of frames
+   * averaged into the baseline. A noisy result is reported as failed and not applied.
+   */
+  const startCalibration = useCallback((calOpts: { countdownMs?: number; durationMs?: number } = {}) => {
+    cancelCalibration()
+    const countdownMs = calOpts.countdownMs ?? 3000
+    const durationMs = calOpts.durationMs ?? 3000
+    const startedAt = performance.now()
+    const base = { quality: null, baseline: null, error: null }
+
+    const tick = () => {
+      const elapsed = performance.now() - startedAt
+      if (elapsed < countdownMs) {
+        setCalibration({ ...base, phase: 'countdown', remainingMs: countdownMs - elapsed, progress: 0 })
+        return
+      }
+      if (elapsed < countdownMs + durationMs) {
+        if (!calibratorRef.current) calibratorRef.current = new BaselineCalibrator(engineRef.current!.orientation, engineRef.current!.stance, engineRef.current!.rules)
+        setCalibration({ ...base, phase: 'collecting', remainingMs: countdownMs + durationMs - elapsed, progress: (elapsed - countdownMs) / durationMs })
+        return
+      }
+      if (calibrationTimerRef.current) clearInterval(calibrationTimerRef.current)
+      calibrationTimerRef.current = null
+      const result = (calibratorRef.current ?? new BaselineCalibrator()).finish()
+      calibratorRef.current = null
+      if (result.baseline) setBaseline(result.baseline)
+      setCalibration({
+        phase: result.baseline ? 'done' : 'failed',
+        remainingMs: 0,
+        progress: 1,
+        quality: result.quality,
+        baseline: result.baseline,
+        error: result.error,
+      })
+    }
+    calibrationTimerRef.current = setInterval(tick, 100)
+    tick()
+  }, [cancelCalibration, setBaseline])
+
+  useEffect(() => () => {
+    if (calibrationTimerRef.current) clearInterval(calibrationTimerRef.current)
+  }, [])
+
+  const startRecording = useCallback(() => {
+    recorderRef.current = new LandmarkRecorder({ baseline: engineRef.current!.baseline, baselines: engineRef.current!.baselines })
+    setIsRecording(true)
+  }, [])
+
+  const stopRecording = useCallback((): LandmarkRecording | null => {
+    const rec = recorderRef.current?.finish() ?? null
+    recorderRef.current = null
+    setIsRecording(false)
+    return rec
+  }, [])
+
+  const stopReplay = useCallback(() => {
+    if (replayTokenRef.current) replayTokenRef.current.cancelled = true
+    replayTokenRef.current = null
+    setIsReplaying(false)
+  }, [])
+
+  // Plays a recording back in real time (scaled by `speed`) without a camera
+  const replay = useCallback(async (rec: LandmarkRecording, replayOpts: { speed?: number } = {}) => {
+    stopReplay()
+    const token = { cancelled: false }
+    replayTokenRef.current = token
+    const speed = replayOpts.speed ?? 1
+    const size = { width: rec.width ?? 0, height: rec.height ?? 0 }
+    await ensureDrawingUtils()
+    restoreRecordingBaselines(rec, engineRef.current!)
+    setStatus(initialStatus(engineRef.current!.rules))
+    syncBaseline()
+    setIsReplaying(true)
+    const start = performance.now()
+    for (const entry of rec.entries) {
+      const wait = start + entry.t / speed - performance.now()
+      if (wait > 0) await new Promise(r => setTimeout(r, wait))
+      if (token.cancelled) return
+      if ('landmarks' in entry) {
+        handleLandmarks(entry.landmarks, entry.t, size)
+      } else {
+        engineRef.current!.setBaseline(entry.baseline)
+        syncBaseline()
+      }
+    }
+    if (replayTokenRef.current === token) stopReplay()
+  }, [ensureDrawingUtils, handleLandmarks, stopReplay, syncBaseline])
+
+  const cancelAnalysis = useCallback(() => {
+    if (analysisTokenRef.current) analysisTokenRef.current.cancelled = true
+    analysisTokenRef.current = null
+  }, [])
+
+  /**
+   * Analyses a local video file on a detached <video> element using a separate engine,
+   * so live state is untouched. Uses the current baseline, or the clip's first pose if none.
+   */
+  const analyzeFile = useCallback(async (file: File) => {
+    cancelAnalysis()
+    const token = { cancelled: false }
+    analysisTokenRef.current = token
+    const url = URL.createObjectURL(file)
+    const video = document.createElement('video')
+    video.muted = true
+    video.playsInline = true
+    video.preload = 'auto'
+    video.src = url
+    setVideoAnalysis({ running: true, progress: 0, duration: 0, points: [], error: null })
+    let detector: PoseDetector | null = null
+    try {
+      detector = await createPoseDetector(detectorPreference, { assetBaseUrl, worker: useWorker })
+      const engine = new PostureEngine({
+        sensitivity: engineRef.current!.sensitivityFor('sitting'),
+        standingSensitivity: engineRef.current!.sensitivityFor('standing'),
+        baselines: engineRef.current!.baselines,
+        stance: engineRef.current!.stance,
+        orientation: engineRef.current!.orientation,
+        smoothing: engineRef.current!.smoothing,
+        weights: engineRef.current!.weights,
+        alertDelays: engineRef.current!.alertDelays,
+        rules: engineRef.current!.rules,
+      })
+      const points = await analyzeVideo(video, detector, engine, {
+        fps: targetFPS,
+        signal: token,
+        onProgress: (progress, pts) => {
+          if (token.cancelled) return
+          setVideoAnalysis({ running: true, progress, duration: video.duration, points: [...pts], error: null })
+        },
+      })
+      setVideoAnalysis({ running: false, progress: token.cancelled ? 0 : 1, duration: video.duration, points, error: null })
+    } catch (e: any) {
+      console.error('Video analysis failed', e)
+      setVideoAnalysis(s => ({
+        running: false,
+        progress: 0,
+        duration: s?.duration ?? 0,
+        points: s?.points ?? [],
+        error: e?.message || 'Video analysis failed',
+      }))
+    } finally {
+      detector?.close()
+      URL.revokeObjectURL(url)
+      if (analysisTokenRef.current === token) analysisTokenRef.current = null
+    }
+  }, [cancelAnalysis, targetFPS, detectorPreference, assetBaseUrl, useWorker])
+
   useEffect(() => {
     if (!videoEl || !isActive) return
     let cancelled = false
@@ -101,141 +502,57 @@ export function usePostureMonitor(
 
     const init = async () => {
       try {
-  const mp = await import("@mediapipe/pose")
-        if (cancelled) return
-        if (poseRef.current) return // already initialized (hot reload guard)
-        const { Pose } = mp
-        // Explicitly pin the version to avoid CDN 'latest' race leading to asset map mismatch
-        const POSE_VERSION = '0.5.1675469404'
-        const pose = new Pose({
-          locateFile: (file: string) => `https://cdn.jsdelivr.net/npm/@mediapipe/pose@${POSE_VERSION}/${file}`
-        })
-        pose.setOptions({
-          modelComplexity: 1,
-          enableSegmentation: false,
-          minDetectionConfidence: 0.7,
-          minTrackingConfidence: 0.7
-        })
-
-        // Await internal WASM / assets init to reduce race conditions
-        if ((pose as any).initialize) {
-          try { await (pose as any).initialize() } catch (e) { console.warn('Pose initialize failed (continuing)', e) }
+        const detector = await createPoseDetector(detectorPreference, { assetBaseUrl, worker: useWorker })
+        if (cancelled || detectorRef.current) { // already initialized (hot reload guard)
+          detector.close()
+          return
         }
+        detectorRef.current = detector
+        setDetectorBackend(detector.backend)
+        setDetectorInWorker(detector.inWorker)
+        setError(null)
 
         // Lazy load drawing utils only if an overlay canvas was provided
-        if (overlayCanvasRef.current && !drawingUtilsRef.current) {
-          try {
-            const du = await import('@mediapipe/drawing_utils')
-            drawingUtilsRef.current = {
-              drawConnectors: du.drawConnectors,
-              drawLandmarks: du.drawLandmarks,
-            }
-          } catch (e) {
-            console.warn('Failed to load drawing utils', e)
-          }
-        }
+        if (overlayCanvasRef.current) await ensureDrawingUtils(detector.backend)
+
+        const frameRate = new FrameRateController({ maxFps: targetFPS, minFps, adaptive: adaptiveFps })
+        frameRate.setOnBattery(onBatteryRef.current)
+        if (adaptModelComplexity && detector.setModelComplexity) frameRate.setModelComplexity(detector.modelComplexity ?? null)
+        frameRateRef.current = frameRate
 
-        pose.onResults((res: any) => {
+        // Only one frame in flight: while the detector is busy, new frames are dropped (and counted)
+        let busy = false
+        const runDetection = async (ts: number) => {
+          busy = true
+          const started = performance.now()
           try {
+            const res = await detector.detect(videoEl, ts)
             if (cancelled || isPaused) return
-            const lm = res?.poseLandmarks
-            if (!lm) return
-            lastLandmarksRef.current = lm
-            // We still draw landmarks even if baseline not yet set
-            const baselineAvailable = !!baselineRef.current
-
-            const nose = lm[0]
-            const leftEar = lm[7]
-            const rightShoulder = lm[12]
-            const leftShoulder = lm[11]
-            const leftHip = lm[23]
-
-            const head_forward = rightShoulder.x - leftEar.x
-            const head_side_slouch = Math.abs(leftEar.z - leftHip.z)
-            const head_angle = angleBetween(leftShoulder, leftEar, nose)
-
-            let forward_diff = 0, side_diff = 0, angle_diff = 0
-            let is_slouch = false, is_side = false, is_head = false
-            if (baselineAvailable) {
-              const base = baselineRef.current!
-              forward_diff = Math.abs(head_forward - base.head_forward)
-              side_diff = Math.abs(head_side_slouch - base.head_side_slouch)
-              angle_diff = Math.abs(head_angle - base.head_angle)
-
-              is_slouch = forward_diff > 0.01
-              is_side = side_diff > 0.05
-              is_head = angle_diff > 10
-
-              pushWindow(slouchWindow, is_slouch ? 1 : 0)
-              pushWindow(sideWindow, is_side ? 1 : 0)
-              pushWindow(headWindow, is_head ? 1 : 0)
-            }
-
-            const warnings: string[] = []
-            if (slouchWindow.current.length === WINDOW_SIZE && slouchWindow.current.reduce((a,b)=>a+b,0) >= REQUIRED_BAD)
-              warnings.push('Forward lean detected')
-            if (sideWindow.current.length === WINDOW_SIZE && sideWindow.current.reduce((a,b)=>a+b,0) >= REQUIRED_BAD)
-              warnings.push('Side lean detected')
-            if (headWindow.current.length === WINDOW_SIZE && headWindow.current.reduce((a,b)=>a+b,0) >= REQUIRED_BAD)
-              warnings.push('Head lowered detected')
-
-            let score = 100
-            if (baselineAvailable) {
-              if (is_slouch) score -= 20
-              if (is_side) score -= 15
-              if (is_head) score -= 15
-              score = Math.max(0, score)
-            }
-
-            if (baselineAvailable) {
-              setStatus(s => ({
-                ...s,
-                score,
-                warnings,
-                raw: { forwardDiff: forward_diff, sideDiff: side_diff, angleDiff: angle_diff }
-              }))
-            }
-
-            // Drawing overlay
-            const overlay = overlayCanvasRef.current
-            if (overlay && drawingUtilsRef.current) {
-              const ctx2 = overlay.getContext('2d')
-              if (ctx2) {
-                // Ensure canvas matches underlying video size
-                if (overlay.width !== videoEl.videoWidth || overlay.height !== videoEl.videoHeight) {
-                  overlay.width = videoEl.videoWidth
-                  overlay.height = videoEl.videoHeight
-                }
-                ctx2.save()
-                ctx2.clearRect(0,0, overlay.width, overlay.height)
-                try {
-                  drawingUtilsRef.current.drawConnectors(ctx2, lm, (mp as any).POSE_CONNECTIONS, { color: '#ffffffff', lineWidth: 2 })
-                  drawingUtilsRef.current.drawLandmarks(ctx2, lm, { color: '#ff0a0aff', radius: 1 })
-                } catch (e) {
-                  // Avoid spamming if drawing fails
-                }
-                ctx2.restore()
-              }
-            }
+            // Frame grab to result, including any worker round trip
+            frameRate.frameDone(performance.now() - started, res.inferenceMs)
+            lastWorldLandmarksRef.current = res.worldLandmarks
+            handleLandmarks(res.landmarks, performance.now(), { width: videoEl.videoWidth, height: videoEl.videoHeight })
           } catch (err) {
-            console.error('Pose onResults processing error', err)
+            if (err instanceof FrameDroppedError) frameRate.frameDropped()
+            else if (!cancelled) console.error('Pose detection error', err)
+          } finally {
+            busy = false
           }
-        })
-        poseRef.current = pose
-
-        const canvas = document.createElement("canvas")
-        const ctx = canvas.getContext("2d")
+        }
 
         const startLoop = () => {
           const loop = (ts: number) => {
             if (cancelled) return
             if (isPaused) { rafId = requestAnimationFrame(loop); return }
-            if (videoEl.videoWidth > 0 && (ts - lastFrameTs.current >= frameInterval)) {
+            if (videoEl.videoWidth > 0 && (ts - lastFrameTs.current >= frameRate.interval)) {
               lastFrameTs.current = ts
-              canvas.width = videoEl.videoWidth
-              canvas.height = videoEl.videoHeight
-              ctx?.drawImage(videoEl, 0, 0, canvas.width, canvas.height)
-              pose.send({ image: canvas })
+              if (busy) frameRate.frameDropped()
+              else runDetection(ts)
+            }
+            const decision = frameRate.evaluate(ts)
+            if (decision) {
+              if (decision.complexity !== null) detector.setModelComplexity?.(decision.complexity)
+              setTelemetry(decision.telemetry)
             }
             rafId = requestAnimationFrame(loop)
           }
@@ -247,8 +564,9 @@ export function usePostureMonitor(
           const onMeta = () => { startLoop(); videoEl.removeEventListener('loadedmetadata', onMeta) }
           videoEl.addEventListener('loadedmetadata', onMeta)
         }
-      } catch (e) {
+      } catch (e: any) {
         console.error("Pose init failed", e)
+        if (!cancelled) setError(e?.message || 'Pose detector failed to load')
       }
     }
 
@@ -256,28 +574,49 @@ export function usePostureMonitor(
     return () => {
       cancelled = true
       if (rafId) cancelAnimationFrame(rafId)
-      if (poseRef.current?.close) {
-        try { poseRef.current.close() } catch {}
-      }
-      poseRef.current = null
+      detectorRef.current?.close()
+      detectorRef.current = null
+      frameRateRef.current = null
+      setTelemetry(null)
+    }
+  }, [videoEl, isActive, isPaused, targetFPS, minFps, adaptiveFps, adaptModelComplexity, detectorPreference, assetBaseUrl, useWorker, ensureDrawingUtils, handleLandmarks])
+
+  // Cap the capture rate while running on battery (Battery Status API, where available)
+  useEffect(() => {
+    let battery: any = null
+    let cancelled = false
+    const onChange = () => {
+      onBatteryRef.current = !battery.charging
+      frameRateRef.current?.setOnBattery(onBatteryRef.current)
     }
-  }, [videoEl, isActive, isPaused, frameInterval])
+    ;(navigator as any).getBattery?.().then((b: any) => {
+      if (cancelled) return
+      battery = b
+      onChange()
+      battery.addEventListener('chargingchange', onChange)
+    }).catch(() => {})
+    return () => {
+      cancelled = true
+      battery?.removeEventListener('chargingchange', onChange)
+    }
+  }, [])
 
   // Clear overlay & optionally reset when deactivated
   useEffect(() => {
     if (!isActive) {
+      cancelCalibration()
+      if (replayTokenRef.current) return
       const overlay = overlayCanvasRef.current
       if (overlay) {
         const ctx = overlay.getContext('2d')
         if (ctx) ctx.clearRect(0,0, overlay.width, overlay.height)
       }
       if (resetOnStop) {
-        baselineRef.current = null
+        engineRef.current?.reset()
+        stanceRef.current = 'sitting'
+        setBaselineState(null)
         setBaselineSet(false)
-        setStatus({ score: 100, warnings: [], raw: {} })
-        slouchWindow.current = []
-        sideWindow.current = []
-        headWindow.current = []
+        setStatus(initialStatus(engineRef.current!.rules))
       }
     }
   }, [isActive])
@@ -285,7 +624,27 @@ export function usePostureMonitor(
   return {
     status,
     baselineSet, // useful for conditionally showing score and badge
+    detectorBackend,
+    detectorInWorker,
+    telemetry, // achieved FPS, latency, dropped frames; refreshed once a second while live
+    error, // detector failed to load (e.g. MediaPipe assets missing)
+    getWorldLandmarks: () => lastWorldLandmarksRef.current,
+    baseline,
     captureBaseline,
+    setBaseline,
+    clearBaselines,
+    calibration,
+    startCalibration,
+    cancelCalibration,
     clearWarnings,
+    isRecording,
+    startRecording,
+    stopRecording,
+    isReplaying,
+    replay,
+    stopReplay,
+    videoAnalysis,
+    analyzeFile,
+    cancelAnalysis,
   }
 }
\ No newline at end of file
@@ -0,0 +1,37 @@
+import { describe, expect, it } from "vitest"
+import { exportSessionsJson, parseSessionsJson } from "@/lib/session-export"
+import type { PostureSession } from "@/lib/session"
+
+const SESSION: PostureSession = {
+  id: 's1',
+  startedAt: 1_000,
+  endedAt: 3_000,
+  pauses: [],
+  samples: [{ t: 2_000, score: 80, raw: { forwardDiff: 0.02, distanceDiff: 0.1 }, warnings: ['Forward lean detected'] }],
+  warnings: [{ t: 2_000, type: 'Forward lean detected' }],
+  baselines: [{
+    t: 1_000,
+    baseline: {
+      head_forward: 0,
+      head_side_slouch: 0.01,
+      head_angle: 90,
+      face_size: 0.05,
+      head_height: 0.3,
+      orientation: 'left',
+      stance: 'sitting',
+      rules: { 'shoulder-asymmetry': 0.01 },
+      landmarks: [{ x: 0.5, y: 0.3 }, { x: 0.5, y: 0.5 }],
+    },
+  }],
+}
+
+describe("session export", () => {
+  it("imports its own JSON export without losing baseline fields", () => {
+    expect(parseSessionsJson(exportSessionsJson([SESSION]))).toEqual([SESSION])
+  })
+
+  it("rejects files that are not session exports", () => {
+    expect(() => parseSessionsJson('{')).toThrow('File is not valid JSON')
+    expect(() => parseSessionsJson('{"schema":"other"}')).toThrow('Not a Posture-Pal session export')
+  })
+})
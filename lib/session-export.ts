@@ -0,0 +1,138 @@
+// CSV / JSON export of recorded sessions, and validated JSON import.
+// The JSON format is versioned so files can move between machines and app versions.
+
+import { z } from "zod"
+import type { PostureBaseline } from "@/lib/posture-engine"
+import type { PostureSession } from "@/lib/session"
+
+export const SESSION_EXPORT_SCHEMA = 'posture-pal/sessions'
+export const SESSION_EXPORT_VERSION = 1
+
+const baselineSchema = z.object({
+  head_forward: z.number(),
+  head_side_slouch: z.number(),
+  head_angle: z.number(),
+  face_size: z.number().optional(),
+  head_height: z.number().optional(),
+  orientation: z.enum(['left', 'right', 'front']).optional(),
+  stance: z.enum(['sitting', 'standing']).optional(),
+  rules: z.record(z.number()).optional(),
+  landmarks: z.array(z.object({ x: z.number(), y: z.number() })).optional(),
+})
+
+const sessionSchema = z.object({
+  id: z.string().min(1),
+  startedAt: z.number(),
+  endedAt: z.number().nullable(),
+  pauses: z.array(z.object({ start: z.number(), end: z.number().nullable() })),
+  samples: z.array(z.object({
+    t: z.number(),
+    score: z.number(),
+    raw: z.object({
+      forwardDiff: z.number().optional(),
+      sideDiff: z.number().optional(),
+      angleDiff: z.number().optional(),
+      distanceDiff: z.number().optional(),
+      heightDiff: z.number().optional(),
+    }).optional(),
+    warnings: z.array(z.string()).optional(),
+  })),
+  warnings: z.array(z.object({ t: z.number(), type: z.string() })),
+  baselines: z.array(z.object({ t: z.number(), baseline: baselineSchema })).optional(),
+  breaks: z.array(z.object({ t: z.number(), taken: z.boolean(), prompted: z.boolean() })).optional(),
+  stanceTime: z.object({ sitting: z.number(), standing: z.number() }).optional(),
+})
+
+const exportSchema = z.object({
+  schema: z.literal(SESSION_EXPORT_SCHEMA),
+  version: z.number().int(),
+  exportedAt: z.string(),
+  sessions: z.array(sessionSchema),
+})
+
+export function exportSessionsJson(sessions: PostureSession[]): string {
+  return JSON.stringify({
+    schema: SESSION_EXPORT_SCHEMA,
+    version: SESSION_EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    sessions,
+  }, null, 2)
+}
+
+export function parseSessionsJson(text: string): PostureSession[] {
+  let data: unknown
+  try {
+    data = JSON.parse(text)
+  } catch {
+    throw new Error('File is not valid JSON')
+  }
+  const parsed = exportSchema.safeParse(data)
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0]
+    throw new Error(`Not a Posture-Pal session export (${issue.path.join('.') || 'root'}: ${issue.message})`)
+  }
+  if (parsed.data.version > SESSION_EXPORT_VERSION) {
+    throw new Error(`Export version ${parsed.data.version} is newer than this app supports`)
+  }
+  return parsed.data.sessions
+}
+
+const CSV_COLUMNS = [
+  'session_id',
+  'timestamp',
+  'score',
+  'forward_diff',
+  'side_diff',
+  'angle_diff',
+  'distance_diff',
+  'height_diff',
+  'warnings',
+  'baseline_head_forward',
+  'baseline_head_side_slouch',
+  'baseline_head_angle',
+  'baseline_face_size',
+  'baseline_head_height',
+]
+
+const csvCell = (v: unknown) => {
+  if (v === undefined || v === null) return ''
+  const str = String(v)
+  return /[",\n]/.test(str) ? `"${str.replace(/"/g, '""')}"` : str
+}
+
+// Baseline in effect at time `t`: the latest one captured at or before it
+const baselineAt = (session: PostureSession, t: number): PostureBaseline | undefined => {
+  let current: PostureBaseline | undefined
+  for (const b of session.baselines ?? []) {
+    if (b.t > t) break
+    current = b.baseline
+  }
+  return current ?? session.baselines?.[0]?.baseline
+}
+
+// One row per recorded second
+export function exportSessionsCsv(sessions: PostureSession[]): string {
+  const rows = [CSV_COLUMNS.join(',')]
+  sessions.forEach(session => {
+    session.samples.forEach(sample => {
+      const base = baselineAt(session, sample.t)
+      rows.push([
+        session.id,
+        new Date(sample.t).toISOString(),
+        sample.score,
+        sample.raw?.forwardDiff,
+        sample.raw?.sideDiff,
+        sample.raw?.angleDiff,
+        sample.raw?.distanceDiff,
+        sample.raw?.heightDiff,
+        (sample.warnings ?? []).join('; '),
+        base?.head_forward,
+        base?.head_side_slouch,
+        base?.head_angle,
+        base?.face_size,
+        base?.head_height,
+      ].map(csvCell).join(','))
+    })
+  })
+  return rows.join('\n') + '\n'
+}
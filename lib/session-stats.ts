@@ -0,0 +1,102 @@
+// Aggregations over persisted sessions for the history dashboard
+
+import { format, startOfDay, startOfWeek } from "date-fns"
+import type { PostureSession } from "@/lib/session"
+
+export type PostureLevel = 'Excellent' | 'Good' | 'Fair' | 'Poor'
+
+export const POSTURE_LEVELS: PostureLevel[] = ['Excellent', 'Good', 'Fair', 'Poor']
+
+// Same bands as the live status badge
+export function postureLevel(score: number): PostureLevel {
+  if (score >= 85) return 'Excellent'
+  if (score >= 70) return 'Good'
+  if (score >= 50) return 'Fair'
+  return 'Poor'
+}
+
+export type StatsPeriod = 'day' | 'week'
+
+export type PeriodStats = {
+  start: number
+  label: string
+  avgScore: number | null
+  minutes: Record<PostureLevel, number>
+  warnings: Record<string, number>
+}
+
+const periodStart = (t: number, period: StatsPeriod) =>
+  (period === 'day' ? startOfDay(t) : startOfWeek(t, { weekStartsOn: 1 })).getTime()
+
+const periodLabel = (start: number, period: StatsPeriod) =>
+  period === 'day' ? format(start, 'MMM d') : `Week of ${format(start, 'MMM d')}`
+
+export function aggregateSessions(sessions: PostureSession[], period: StatsPeriod): PeriodStats[] {
+  const buckets = new Map<number, PeriodStats & { scoreSum: number; sampleCount: number }>()
+  const bucketFor = (t: number) => {
+    const start = periodStart(t, period)
+    let b = buckets.get(start)
+    if (!b) {
+      b = {
+        start,
+        label: periodLabel(start, period),
+        avgScore: null,
+        minutes: { Excellent: 0, Good: 0, Fair: 0, Poor: 0 },
+        warnings: {},
+        scoreSum: 0,
+        sampleCount: 0,
+      }
+      buckets.set(start, b)
+    }
+    return b
+  }
+
+  sessions.forEach(s => {
+    s.samples.forEach(sample => {
+      const b = bucketFor(sample.t)
+      b.scoreSum += sample.score
+      b.sampleCount++
+      b.minutes[postureLevel(sample.score)] += 1 / 60
+    })
+    s.warnings.forEach(w => {
+      const b = bucketFor(w.t)
+      b.warnings[w.type] = (b.warnings[w.type] ?? 0) + 1
+    })
+  })
+
+  return Array.from(buckets.values())
+    .sort((a, b) => a.start - b.start)
+    .map(({ scoreSum, sampleCount, ...b }) => ({
+      ...b,
+      avgScore: sampleCount ? Math.round(scoreSum / sampleCount) : null,
+      minutes: {
+        Excellent: Math.round(b.minutes.Excellent * 10) / 10,
+        Good: Math.round(b.minutes.Good * 10) / 10,
+        Fair: Math.round(b.minutes.Fair * 10) / 10,
+        Poor: Math.round(b.minutes.Poor * 10) / 10,
+      },
+    }))
+}
+
+export function warningTypes(stats: PeriodStats[]) {
+  const types = new Set<string>()
+  stats.forEach(s => Object.keys(s.warnings).forEach(t => types.add(t)))
+  return Array.from(types).sort()
+}
+
+export function sessionSummary(session: PostureSession) {
+  const end = session.endedAt ?? session.samples[session.samples.length - 1]?.t ?? session.startedAt
+  const paused = session.pauses.reduce((acc, p) => acc + ((p.end ?? end) - p.start), 0)
+  const avg = session.samples.length
+    ? Math.round(session.samples.reduce((a, s) => a + s.score, 0) / session.samples.length)
+    : null
+  return {
+    durationMs: Math.max(0, end - session.startedAt - paused),
+    avgScore: avg,
+    warningCount: session.warnings.length,
+    breaksTaken: session.breaks?.filter(b => b.taken).length ?? 0,
+    breaksSkipped: session.breaks?.filter(b => !b.taken).length ?? 0,
+    sittingMs: session.stanceTime?.sitting ?? 0,
+    standingMs: session.stanceTime?.standing ?? 0,
+  }
+}
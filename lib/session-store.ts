@@ -0,0 +1,52 @@
+// Minimal IndexedDB persistence for monitoring sessions
+
+import type { PostureSession } from "@/lib/session"
+
+const DB_NAME = 'posture-pal'
+const DB_VERSION = 1
+const SESSION_STORE = 'sessions'
+
+let dbPromise: Promise<IDBDatabase> | null = null
+
+function openDb(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise
+  dbPromise = new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') return reject(new Error('IndexedDB is not available'))
+    const req = indexedDB.open(DB_NAME, DB_VERSION)
+    req.onupgradeneeded = () => {
+      const db = req.result
+      if (!db.objectStoreNames.contains(SESSION_STORE)) {
+        db.createObjectStore(SESSION_STORE, { keyPath: 'id' })
+      }
+    }
+    req.onsuccess = () => resolve(req.result)
+    req.onerror = () => reject(req.error)
+  })
+  // Allow a retry on the next call if opening failed
+  dbPromise.catch(() => { dbPromise = null })
+  return dbPromise
+}
+
+const promisify = <T>(req: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result)
+    req.onerror = () => reject(req.error)
+  })
+
+async function withStore<T>(mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest<T>) {
+  const db = await openDb()
+  return promisify(fn(db.transaction(SESSION_STORE, mode).objectStore(SESSION_STORE)))
+}
+
+export async function saveSession(session: PostureSession) {
+  await withStore('readwrite', store => store.put(session))
+}
+
+export async function listSessions(): Promise<PostureSession[]> {
+  const sessions = await withStore<PostureSession[]>('readonly', store => store.getAll())
+  return sessions.sort((a, b) => a.startedAt - b.startedAt)
+}
+
+export async function deleteSession(id: string) {
+  await withStore('readwrite', store => store.delete(id))
+}
@@ -0,0 +1,276 @@
+"use client"
+
+import { useCallback, useEffect, useRef } from "react"
+import type { PostureStatus } from "@/lib/posture"
+import type { PostureBaseline, PostureDiffs, Stance } from "@/lib/posture-engine"
+import { saveSession } from "@/lib/session-store"
+
+export type PauseInterval = {
+  start: number
+  end: number | null
+}
+
+// One sample per wall-clock second, averaged over the frames in that second.
+// `raw` and `warnings` were added later, so older stored sessions may lack them.
+export type ScoreSample = {
+  t: number
+  score: number
+  raw?: Partial<PostureDiffs>
+  warnings?: string[]
+}
+
+export type BaselineEvent = {
+  t: number
+  baseline: PostureBaseline
+}
+
+export type WarningEvent = {
+  t: number
+  type: string
+}
+
+// A break the user took (away long enough), or a break reminder they sat through
+export type BreakEvent = {
+  t: number
+  taken: boolean
+  prompted: boolean // a reminder was showing
+}
+
+// Milliseconds spent present in each stance
+export type StanceTime = Record<Stance, number>
+
+export type PostureSession = {
+  id: string
+  startedAt: number
+  endedAt: number | null
+  pauses: PauseInterval[]
+  samples: ScoreSample[]
+  warnings: WarningEvent[]
+  baselines?: BaselineEvent[]
+  breaks?: BreakEvent[]
+  stanceTime?: StanceTime
+}
+
+type SampleBucket = {
+  second: number
+  count: number
+  score: number
+  raw: Record<keyof PostureDiffs, { sum: number; count: number }>
+  warnings: Set<string>
+}
+
+const emptyBucket = (second: number): SampleBucket => ({
+  second,
+  count: 0,
+  score: 0,
+  raw: {
+    forwardDiff: { sum: 0, count: 0 },
+    sideDiff: { sum: 0, count: 0 },
+    angleDiff: { sum: 0, count: 0 },
+    distanceDiff: { sum: 0, count: 0 },
+    heightDiff: { sum: 0, count: 0 },
+  },
+  warnings: new Set(),
+})
+
+const SAVE_INTERVAL_MS = 15000
+const STANCE_TICK_MS = 1000
+// Stance marks further apart than this (stalled detection, tab asleep) are not counted
+const MAX_STANCE_GAP_MS = 5000
+
+/**
+ * Builds a PostureSession from the stream of statuses. Pure bookkeeping so it can
+ * also be driven from replays or tests; persistence lives in useSessionRecorder.
+ */
+export class SessionRecorder {
+  private session: PostureSession
+  private bucket: SampleBucket | null = null
+  private activeWarnings = new Set<string>()
+  private lastStance: { stance: Stance; t: number } | null = null
+
+  constructor(now = Date.now()) {
+    this.session = {
+      id: typeof crypto !== 'undefined' && crypto.randomUUID ? crypto.randomUUID() : `${now}-${Math.random().toString(36).slice(2)}`,
+      startedAt: now,
+      endedAt: null,
+      pauses: [],
+      samples: [],
+      warnings: [],
+      baselines: [],
+      breaks: [],
+      stanceTime: { sitting: 0, standing: 0 },
+    }
+  }
+
+  get id() {
+    return this.session.id
+  }
+
+  push(status: Pick<PostureStatus, 'score' | 'warnings'> & Partial<Pick<PostureStatus, 'raw'>>, now = Date.now()) {
+    const second = Math.floor(now / 1000) * 1000
+    if (this.bucket && this.bucket.second !== second) this.flush()
+    if (!this.bucket) this.bucket = emptyBucket(second)
+    const bucket = this.bucket
+    bucket.score += status.score
+    bucket.count++
+    const raw = status.raw ?? {}
+    ;(Object.keys(bucket.raw) as (keyof PostureDiffs)[]).forEach(k => {
+      const v = raw[k]
+      if (typeof v !== 'number') return
+      bucket.raw[k].sum += v
+      bucket.raw[k].count++
+    })
+    // Stored by label, so history keeps reading the same way for custom rules
+    const labels = status.warnings.map(w => w.label)
+    labels.forEach(w => bucket.warnings.add(w))
+
+    // Record a warning event only when it starts, not for every frame it stays active
+    const current = new Set(labels)
+    current.forEach(w => { if (!this.activeWarnings.has(w)) this.session.warnings.push({ t: now, type: w }) })
+    this.activeWarnings = current
+  }
+
+  setBaseline(baseline: PostureBaseline, now = Date.now()) {
+    const baselines = this.session.baselines!
+    const last = baselines[baselines.length - 1]
+    if (last && JSON.stringify(last.baseline) === JSON.stringify(baseline)) return
+    baselines.push({ t: now, baseline: { ...baseline } })
+  }
+
+  logBreak(event: BreakEvent) {
+    this.session.breaks!.push({ ...event })
+  }
+
+  // Call periodically while the user is in frame; the time since the last mark goes to the
+  // stance seen then, unless the gap is too long to be sure they were there throughout
+  markStance(stance: Stance, now = Date.now()) {
+    const last = this.lastStance
+    if (last && now - last.t <= MAX_STANCE_GAP_MS) this.session.stanceTime![last.stance] += now - last.t
+    this.lastStance = { stance, t: now }
+  }
+
+  // Stops stance time from running on while the user is out of frame
+  clearStance() {
+    this.lastStance = null
+  }
+
+  pause(now = Date.now()) {
+    const last = this.session.pauses[this.session.pauses.length - 1]
+    if (last && last.end === null) return
+    this.flush()
+    this.activeWarnings.clear()
+    this.lastStance = null
+    this.session.pauses.push({ start: now, end: null })
+  }
+
+  resume(now = Date.now()) {
+    const last = this.session.pauses[this.session.pauses.length - 1]
+    if (last && last.end === null) last.end = now
+  }
+
+  finish(now = Date.now()) {
+    this.flush()
+    this.resume(now)
+    this.session.endedAt = now
+    return this.snapshot()
+  }
+
+  snapshot(): PostureSession {
+    return {
+      ...this.session,
+      pauses: this.session.pauses.map(p => ({ ...p })),
+      samples: [...this.session.samples],
+      warnings: [...this.session.warnings],
+      baselines: [...this.session.baselines!],
+      breaks: [...this.session.breaks!],
+      stanceTime: { ...this.session.stanceTime! },
+    }
+  }
+
+  private flush() {
+    const bucket = this.bucket
+    this.bucket = null
+    if (!bucket || bucket.count === 0) return
+    const raw: Partial<PostureDiffs> = {}
+    ;(Object.keys(bucket.raw) as (keyof PostureDiffs)[]).forEach(k => {
+      if (bucket.raw[k].count) raw[k] = bucket.raw[k].sum / bucket.raw[k].count
+    })
+    this.session.samples.push({
+      t: bucket.second,
+      score: Math.round(bucket.score / bucket.count),
+      raw,
+      warnings: Array.from(bucket.warnings),
+    })
+  }
+}
+
+/**
+ * Hook: useSessionRecorder
+ * Records one session per active period of monitoring and persists it to IndexedDB
+ * periodically, on stop and when the page is hidden.
+ */
+export function useSessionRecorder(
+  isActive: boolean,
+  isPaused: boolean,
+  status: PostureStatus,
+  opts: { enabled?: boolean; baseline?: PostureBaseline | null } = {}
+) {
+  const recorderRef = useRef<SessionRecorder | null>(null)
+  const enabled = opts.enabled ?? true
+
+  const persist = (session: PostureSession) => {
+    saveSession(session).catch(e => console.warn('Failed to save session', e))
+  }
+
+  useEffect(() => {
+    if (!isActive) return
+    const recorder = new SessionRecorder()
+    recorderRef.current = recorder
+    const timer = setInterval(() => persist(recorder.snapshot()), SAVE_INTERVAL_MS)
+    const onHide = () => persist(recorder.snapshot())
+    window.addEventListener('pagehide', onHide)
+    return () => {
+      clearInterval(timer)
+      window.removeEventListener('pagehide', onHide)
+      const session = recorder.finish()
+      if (session.samples.length > 0) persist(session)
+      recorderRef.current = null
+    }
+  }, [isActive])
+
+  useEffect(() => {
+    const recorder = recorderRef.current
+    if (!recorder) return
+    if (isPaused) recorder.pause()
+    else recorder.resume()
+  }, [isPaused, isActive])
+
+  useEffect(() => {
+    if (opts.baseline) recorderRef.current?.setBaseline(opts.baseline)
+  }, [opts.baseline, isActive])
+
+  useEffect(() => {
+    if (!enabled || isPaused) return
+    recorderRef.current?.push(status)
+  }, [status, enabled, isPaused])
+
+  // Status only updates on change, so sample the stance on a timer
+  const statusRef = useRef(status)
+  statusRef.current = status
+  useEffect(() => {
+    if (!isActive || isPaused) return
+    const timer = setInterval(() => {
+      const recorder = recorderRef.current
+      const { presence, stance } = statusRef.current
+      if (presence === 'absent') recorder?.clearStance()
+      else recorder?.markStance(stance)
+    }, STANCE_TICK_MS)
+    return () => clearInterval(timer)
+  }, [isActive, isPaused])
+
+  const logBreak = useCallback((event: BreakEvent) => {
+    recorderRef.current?.logBreak(event)
+  }, [])
+
+  return { logBreak }
+}
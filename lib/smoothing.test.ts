@@ -0,0 +1,69 @@
+import { describe, expect, it } from "vitest"
+import { LandmarkSmoother } from "@/lib/smoothing"
+import type { Landmark } from "@/lib/posture-engine"
+
+const FRAME_MS = 1000 / 30
+const point = (x: number, visibility = 1): Landmark[] => [{ x, y: x, z: 0, visibility }]
+
+const stdDev = (values: number[]) => {
+  const mean = values.reduce((a, v) => a + v, 0) / values.length
+  return Math.sqrt(values.reduce((a, v) => a + (v - mean) ** 2, 0) / values.length)
+}
+
+describe("LandmarkSmoother", () => {
+  it("passes landmarks through untouched with 'none'", () => {
+    const smoother = new LandmarkSmoother({ type: 'none' })
+    const lm = point(0.5)
+    expect(smoother.enabled).toBe(false)
+    expect(smoother.smooth(lm, 0)).toBe(lm)
+  })
+
+  it("starts from the first frame and keeps visibility as is", () => {
+    const smoother = new LandmarkSmoother({ type: 'exponential' })
+    expect(smoother.smooth(point(0.5, 0.7), 0)).toEqual(point(0.5, 0.7))
+    expect(smoother.smooth(point(1, 0.2), FRAME_MS)[0].visibility).toBe(0.2)
+  })
+
+  it("moves the exponential filter by alpha at 30 fps", () => {
+    const smoother = new LandmarkSmoother({ type: 'exponential', alpha: 0.3 })
+    smoother.smooth(point(0), 0)
+    expect(smoother.smooth(point(1), FRAME_MS)[0].x).toBeCloseTo(0.3)
+  })
+
+  it("gives the same exponential result at half the frame rate", () => {
+    const fast = new LandmarkSmoother({ type: 'exponential', alpha: 0.3 })
+    const slow = new LandmarkSmoother({ type: 'exponential', alpha: 0.3 })
+    fast.smooth(point(0), 0)
+    slow.smooth(point(0), 0)
+    fast.smooth(point(1), FRAME_MS)
+    const fastValue = fast.smooth(point(1), 2 * FRAME_MS)[0].x
+    expect(slow.smooth(point(1), 2 * FRAME_MS)[0].x).toBeCloseTo(fastValue)
+  })
+
+  it("damps jitter on a still pose with the One Euro filter", () => {
+    const smoother = new LandmarkSmoother({ type: 'one-euro' })
+    const raw: number[] = []
+    const smoothed: number[] = []
+    for (let i = 0; i < 90; i++) {
+      const x = 0.5 + (i % 2 ? 0.003 : -0.003)
+      raw.push(x)
+      smoothed.push(smoother.smooth(point(x), i * FRAME_MS)[0].x)
+    }
+    expect(stdDev(smoothed.slice(30))).toBeLessThan(stdDev(raw.slice(30)) / 2)
+  })
+
+  it("follows a quick move with little lag with the One Euro filter", () => {
+    const smoother = new LandmarkSmoother({ type: 'one-euro' })
+    let x = 0
+    for (let i = 0; i < 30; i++) x = smoother.smooth(point(0.3), i * FRAME_MS)[0].x
+    for (let i = 30; i < 40; i++) x = smoother.smooth(point(0.6), i * FRAME_MS)[0].x
+    expect(x).toBeGreaterThan(0.55)
+  })
+
+  it("forgets the previous frames after a reset", () => {
+    const smoother = new LandmarkSmoother({ type: 'exponential' })
+    smoother.smooth(point(0), 0)
+    smoother.reset()
+    expect(smoother.smooth(point(1), FRAME_MS)[0].x).toBe(1)
+  })
+})
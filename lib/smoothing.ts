@@ -0,0 +1,108 @@
+// Temporal smoothing of landmark coordinates, so per-frame detector jitter does not flip
+// the threshold checks. Filters are timestamp-aware and work at any frame rate.
+
+import type { Landmark } from "@/lib/posture-engine"
+
+export type SmoothingSettings =
+  | { type: 'none' }
+  // `alpha` is the weight of the newest frame at 30 fps; it is rescaled for other rates
+  | { type: 'exponential'; alpha?: number }
+  // One Euro filter (Casiez et al. 2012): heavy smoothing when still, little lag when moving.
+  // `minCutoff` / `dCutoff` in Hz, `beta` scales the cutoff with speed (normalized units/s)
+  | { type: 'one-euro'; minCutoff?: number; beta?: number; dCutoff?: number }
+
+export const DEFAULT_SMOOTHING: SmoothingSettings = { type: 'one-euro' }
+
+const DEFAULT_ALPHA = 0.3
+const DEFAULT_MIN_CUTOFF = 1
+const DEFAULT_BETA = 5
+const DEFAULT_D_CUTOFF = 1
+// Assumed frame gap for the first sample and for non-increasing timestamps
+const FALLBACK_DT = 1 / 30
+
+interface ScalarFilter {
+  filter(value: number, dt: number): number
+}
+
+// Smoothing factor of a first-order low-pass filter with the given cutoff
+const lowPassAlpha = (cutoff: number, dt: number) => {
+  const tau = 1 / (2 * Math.PI * cutoff)
+  return 1 / (1 + tau / dt)
+}
+
+class ExponentialFilter implements ScalarFilter {
+  private value: number | null = null
+  constructor(private alpha: number) {}
+
+  filter(value: number, dt: number) {
+    // Same time constant regardless of frame rate
+    const a = 1 - Math.pow(1 - this.alpha, dt / FALLBACK_DT)
+    this.value = this.value === null ? value : this.value + a * (value - this.value)
+    return this.value
+  }
+}
+
+class OneEuroFilter implements ScalarFilter {
+  private value: number | null = null
+  private derivative = 0
+  constructor(private minCutoff: number, private beta: number, private dCutoff: number) {}
+
+  filter(value: number, dt: number) {
+    if (this.value === null) {
+      this.value = value
+      return value
+    }
+    const rawDerivative = (value - this.value) / dt
+    this.derivative += lowPassAlpha(this.dCutoff, dt) * (rawDerivative - this.derivative)
+    const cutoff = this.minCutoff + this.beta * Math.abs(this.derivative)
+    this.value += lowPassAlpha(cutoff, dt) * (value - this.value)
+    return this.value
+  }
+}
+
+const createFilter = (settings: SmoothingSettings): ScalarFilter | null => {
+  switch (settings.type) {
+    case 'exponential':
+      return new ExponentialFilter(settings.alpha ?? DEFAULT_ALPHA)
+    case 'one-euro':
+      return new OneEuroFilter(
+        settings.minCutoff ?? DEFAULT_MIN_CUTOFF,
+        settings.beta ?? DEFAULT_BETA,
+        settings.dCutoff ?? DEFAULT_D_CUTOFF,
+      )
+    default:
+      return null
+  }
+}
+
+/**
+ * Smooths x/y/z of every landmark independently; visibility is passed through untouched.
+ * Call `reset` when the stream is interrupted so the next frame is not blended with stale data.
+ */
+export class LandmarkSmoother {
+  private filters: ScalarFilter[][] = []
+  private lastTimestamp: number | null = null
+
+  constructor(private settings: SmoothingSettings = DEFAULT_SMOOTHING) {}
+
+  get enabled() {
+    return this.settings.type !== 'none'
+  }
+
+  // `timestamp` in milliseconds
+  smooth(lm: Landmark[], timestamp: number): Landmark[] {
+    if (!this.enabled) return lm
+    const elapsed = this.lastTimestamp === null ? 0 : (timestamp - this.lastTimestamp) / 1000
+    const dt = elapsed > 0 ? elapsed : FALLBACK_DT
+    this.lastTimestamp = timestamp
+    return lm.map((p, i) => {
+      const f = this.filters[i] ??= [createFilter(this.settings)!, createFilter(this.settings)!, createFilter(this.settings)!]
+      return { ...p, x: f[0].filter(p.x, dt), y: f[1].filter(p.y, dt), z: f[2].filter(p.z, dt) }
+    })
+  }
+
+  reset() {
+    this.filters = []
+    this.lastTimestamp = null
+  }
+}
@@ -0,0 +1,110 @@
+import { describe, expect, it } from "vitest"
+import { DEFAULT_STRETCHES, StretchRoutine, type StretchExercise } from "@/lib/stretch-routine"
+import type { Landmark } from "@/lib/posture-engine"
+
+const FRAME_MS = 100
+
+// Moving landmark 0 to the right by 0.1 counts as in position; tests go to 0.61 to stay clear of rounding
+const SLIDE: StretchExercise = {
+  id: 'slide',
+  name: 'Slide',
+  instruction: 'Slide right.',
+  landmarks: [0],
+  measure: lm => lm[0].x,
+  goal: 0.1,
+  holdS: 1,
+  reps: 2,
+}
+const SECOND: StretchExercise = { ...SLIDE, id: 'second', name: 'Second', reps: 1 }
+
+const at = (x: number, visibility = 1): Landmark[] => [{ x, y: 0.5, z: 0, visibility }]
+
+// Feeds the same pose every 100 ms from `from` to `to` ms; returns the last state
+function hold(routine: StretchRoutine, lm: Landmark[] | null, from: number, to: number) {
+  let state = routine.update(lm, from)
+  for (let t = from + FRAME_MS; t <= to; t += FRAME_MS) state = routine.update(lm, t)
+  return state
+}
+
+// Face-on ears and shoulders, with the head tilted by `tilt` (positive: left ear lower)
+function frontal(tilt: number): Landmark[] {
+  const lm: Landmark[] = Array.from({ length: 33 }, () => ({ x: 0.5, y: 0.5, z: 0, visibility: 1 }))
+  lm[7] = { x: 0.55, y: 0.3 + tilt, z: 0, visibility: 1 }
+  lm[8] = { x: 0.45, y: 0.3 - tilt, z: 0, visibility: 1 }
+  lm[11] = { x: 0.6, y: 0.5, z: 0, visibility: 1 }
+  lm[12] = { x: 0.4, y: 0.5, z: 0, visibility: 1 }
+  return lm
+}
+
+describe("StretchRoutine", () => {
+  it("counts a rep after moving into position, holding and releasing", () => {
+    const routine = new StretchRoutine([SLIDE, SECOND])
+    expect(routine.update(at(0.5), 0)).toMatchObject({ phase: 'position', progress: 0, visible: true })
+    expect(routine.update(at(0.55), 100).progress).toBeCloseTo(0.5)
+
+    expect(routine.update(at(0.61), 200).phase).toBe('hold')
+    expect(hold(routine, at(0.61), 300, 1100)).toMatchObject({ phase: 'hold', rep: 0 })
+    expect(routine.update(at(0.61), 1200)).toMatchObject({ phase: 'release', rep: 1 })
+
+    // The next rep only starts once back near the start
+    expect(routine.update(at(0.56), 1300).phase).toBe('release')
+    expect(routine.update(at(0.52), 1400)).toMatchObject({ phase: 'position', rep: 1, exerciseIndex: 0 })
+  })
+
+  it("moves to the next exercise after the last rep, and finishes", () => {
+    const routine = new StretchRoutine([SLIDE, SECOND])
+    let t = 0
+    const rep = () => {
+      hold(routine, at(0.5), t, t + 100)
+      hold(routine, at(0.61), t + 200, t + 1300)
+      const state = routine.update(at(0.5), t + 1400)
+      t += 1500
+      return state
+    }
+    expect(rep()).toMatchObject({ exerciseIndex: 0, rep: 1 })
+    expect(rep()).toMatchObject({ exerciseIndex: 1, rep: 0, phase: 'position' })
+    expect(rep()).toMatchObject({ phase: 'done', exercise: null })
+  })
+
+  it("keeps a hold through a brief wobble but restarts it after a longer one", () => {
+    const routine = new StretchRoutine([SLIDE])
+    routine.update(at(0.5), 0)
+    hold(routine, at(0.61), 100, 500)
+    // 80% of the goal is still holding
+    expect(routine.update(at(0.585), 600).phase).toBe('hold')
+    hold(routine, at(0.55), 700, 1100) // 400 ms out of position: within the grace period
+    expect(routine.update(at(0.61), 1200)).toMatchObject({ phase: 'release', rep: 1 })
+
+    const strict = new StretchRoutine([SLIDE])
+    strict.update(at(0.5), 0)
+    hold(strict, at(0.61), 100, 500)
+    expect(hold(strict, at(0.55), 600, 1200)).toMatchObject({ phase: 'position', heldMs: 0 })
+  })
+
+  it("treats leaving the frame like leaving the position", () => {
+    const routine = new StretchRoutine([SLIDE])
+    routine.update(at(0.5), 0)
+    hold(routine, at(0.61), 100, 500)
+    expect(routine.update(null, 600)).toMatchObject({ phase: 'hold', visible: false })
+    expect(routine.update(at(0.61, 0.2), 1200)).toMatchObject({ phase: 'position', visible: false })
+  })
+
+  it("skips to the next exercise", () => {
+    const routine = new StretchRoutine([SLIDE, SECOND])
+    expect(routine.skip()).toMatchObject({ exerciseIndex: 1, phase: 'position' })
+    expect(routine.skip()).toMatchObject({ phase: 'done', exercise: null })
+    expect(routine.skip().phase).toBe('done')
+    expect(new StretchRoutine([]).state.phase).toBe('done')
+  })
+
+  it("verifies the default neck tilt from a face-on pose", () => {
+    const routine = new StretchRoutine(DEFAULT_STRETCHES)
+    routine.update(frontal(0), 0)
+    // About 22° of tilt, past the 20° goal
+    expect(routine.update(frontal(0.02), 100)).toMatchObject({ phase: 'hold', progress: 1 })
+    // Tilting the other way does not count for the left tilt
+    const other = new StretchRoutine(DEFAULT_STRETCHES)
+    other.update(frontal(0), 0)
+    expect(other.update(frontal(-0.02), 100)).toMatchObject({ phase: 'position', progress: 0 })
+  })
+})
@@ -0,0 +1,277 @@
+"use client"
+
+// Guided neck/shoulder stretches for breaks, checked against the live pose: each exercise
+// measures one value from the landmarks, and a rep counts once the user has moved far enough
+// from where they started and held it for the exercise's hold time. The default exercises
+// compare the left and right side, so they need a face-on camera.
+
+import { useCallback, useEffect, useRef, useState } from "react"
+import { MIN_VISIBILITY, type Landmark } from "@/lib/posture-engine"
+
+export type StretchExercise = {
+  id: string
+  name: string
+  instruction: string
+  landmarks: number[] // must be visible to measure
+  measure: (lm: Landmark[]) => number
+  goal: number // change from the starting value that counts as in position (sign gives the direction)
+  holdS: number
+  reps: number
+}
+
+export type StretchPhase = 'position' | 'hold' | 'release' | 'done'
+
+export type StretchState = {
+  exerciseIndex: number
+  exercise: StretchExercise | null // null once the routine is done
+  rep: number // reps completed of the current exercise
+  phase: StretchPhase
+  progress: number // 0–1 towards the target position
+  heldMs: number
+  visible: boolean
+}
+
+// MediaPipe Pose landmark indices
+const LEFT_EAR = 7
+const RIGHT_EAR = 8
+const LEFT_SHOULDER = 11
+const RIGHT_SHOULDER = 12
+const LEFT_WRIST = 15
+const RIGHT_WRIST = 16
+
+// Tilt of the ear line in degrees, positive when the left ear is lower (head tilted to the left)
+const earTilt = (lm: Landmark[]) => {
+  const le = lm[LEFT_EAR], re = lm[RIGHT_EAR]
+  return (Math.atan2(le.y - re.y, Math.abs(le.x - re.x)) * 180) / Math.PI
+}
+
+const shoulderWidth = (lm: Landmark[]) =>
+  Math.hypot(lm[LEFT_SHOULDER].x - lm[RIGHT_SHOULDER].x, lm[LEFT_SHOULDER].y - lm[RIGHT_SHOULDER].y) || 1
+
+const shoulderMidY = (lm: Landmark[]) => (lm[LEFT_SHOULDER].y + lm[RIGHT_SHOULDER].y) / 2
+
+export const DEFAULT_STRETCHES: StretchExercise[] = [
+  {
+    id: 'neck-tilt-left',
+    name: 'Neck tilt left',
+    instruction: 'Face the camera and slowly lower your left ear toward your left shoulder.',
+    landmarks: [LEFT_EAR, RIGHT_EAR],
+    measure: earTilt,
+    goal: 20,
+    holdS: 10,
+    reps: 2,
+  },
+  {
+    id: 'neck-tilt-right',
+    name: 'Neck tilt right',
+    instruction: 'Now lower your right ear toward your right shoulder.',
+    landmarks: [LEFT_EAR, RIGHT_EAR],
+    measure: earTilt,
+    goal: -20,
+    holdS: 10,
+    reps: 2,
+  },
+  {
+    id: 'shoulder-shrug',
+    name: 'Shoulder shrugs',
+    instruction: 'Pull both shoulders up toward your ears, then let them drop.',
+    landmarks: [LEFT_EAR, RIGHT_EAR, LEFT_SHOULDER, RIGHT_SHOULDER],
+    // Ear-to-shoulder gap in shoulder widths; shrinks as the shoulders rise
+    measure: lm => (shoulderMidY(lm) - (lm[LEFT_EAR].y + lm[RIGHT_EAR].y) / 2) / shoulderWidth(lm),
+    goal: -0.12,
+    holdS: 2,
+    reps: 5,
+  },
+  {
+    id: 'overhead-reach',
+    name: 'Overhead reach',
+    instruction: 'Lift both arms above your head and reach up.',
+    landmarks: [LEFT_SHOULDER, RIGHT_SHOULDER, LEFT_WRIST, RIGHT_WRIST],
+    // Wrist height above the shoulders, in shoulder widths
+    measure: lm => (shoulderMidY(lm) - (lm[LEFT_WRIST].y + lm[RIGHT_WRIST].y) / 2) / shoulderWidth(lm),
+    goal: 1.2,
+    holdS: 5,
+    reps: 1,
+  },
+]
+
+// Holding at slightly less than the full goal still counts, so jitter does not break a hold
+const HOLD_MIN_PROGRESS = 0.8
+// Back to within this share of the goal before the next rep starts
+const RELEASE_MAX_PROGRESS = 0.3
+// Leaving the pose (or the frame) for longer than this restarts the hold
+const HOLD_GRACE_MS = 500
+
+const clamp01 = (v: number) => Math.min(1, Math.max(0, v))
+
+export class StretchRoutine {
+  private index = 0
+  private rep = 0
+  private phase: StretchPhase
+  private start: number | null = null // measured value the current rep is compared with
+  private holdStart: number | null = null
+  private lostSince: number | null = null
+  private progress = 0
+  private heldMs = 0
+  private visible = false
+
+  constructor(private exercises: StretchExercise[] = DEFAULT_STRETCHES) {
+    this.phase = exercises.length ? 'position' : 'done'
+  }
+
+  get state(): StretchState {
+    const done = this.phase === 'done'
+    return {
+      exerciseIndex: this.index,
+      exercise: done ? null : this.exercises[this.index],
+      rep: this.rep,
+      phase: this.phase,
+      progress: this.progress,
+      heldMs: this.heldMs,
+      visible: this.visible,
+    }
+  }
+
+  // `lm` is null when nobody is in frame; `now` in milliseconds
+  update(lm: Landmark[] | null, now: number): StretchState {
+    if (this.phase === 'done') return this.state
+    const exercise = this.exercises[this.index]
+    this.visible = !!lm && exercise.landmarks.every(i => lm[i] && (lm[i].visibility ?? 1) >= MIN_VISIBILITY)
+    if (!this.visible) {
+      this.loseHold(now)
+      return this.state
+    }
+    const value = exercise.measure(lm!)
+    // The first clear frame of each exercise is the neutral position to move away from
+    this.start ??= value
+    this.progress = clamp01((value - this.start) / exercise.goal)
+
+    if (this.phase === 'position') {
+      if (this.progress >= 1) {
+        this.phase = 'hold'
+        this.holdStart = now
+        this.lostSince = null
+      }
+    } else if (this.phase === 'hold') {
+      if (this.progress < HOLD_MIN_PROGRESS) {
+        this.loseHold(now)
+      } else {
+        this.lostSince = null
+        this.heldMs = now - this.holdStart!
+        if (this.heldMs >= exercise.holdS * 1000) {
+          this.rep++
+          this.phase = 'release'
+          this.heldMs = 0
+        }
+      }
+    } else if (this.progress <= RELEASE_MAX_PROGRESS) {
+      // Released: next rep, or the next exercise once this one is complete
+      if (this.rep >= exercise.reps) this.nextExercise()
+      else this.phase = 'position'
+    }
+    return this.state
+  }
+
+  // Moves on without finishing the current exercise
+  skip() {
+    if (this.phase !== 'done') this.nextExercise()
+    return this.state
+  }
+
+  private loseHold(now: number) {
+    if (this.phase !== 'hold') return
+    this.lostSince ??= now
+    if (now - this.lostSince <= HOLD_GRACE_MS) return
+    this.phase = 'position'
+    this.holdStart = null
+    this.lostSince = null
+    this.heldMs = 0
+  }
+
+  private nextExercise() {
+    this.index++
+    this.rep = 0
+    this.start = null
+    this.holdStart = null
+    this.lostSince = null
+    this.progress = 0
+    this.heldMs = 0
+    this.phase = this.index < this.exercises.length ? 'position' : 'done'
+  }
+}
+
+const PANEL_FONT = '600 16px system-ui, sans-serif'
+const SMALL_FONT = '13px system-ui, sans-serif'
+
+/**
+ * Draws the current exercise, rep count and progress in the top-left corner of the overlay.
+ * The bar fills while moving into position, then turns green and refills over the hold.
+ */
+export function drawStretchProgress(ctx: CanvasRenderingContext2D, state: StretchState) {
+  const exercise = state.exercise
+  if (!exercise) return
+  const x = 12, y = 12, w = 240, h = 76
+  ctx.save()
+  ctx.fillStyle = 'rgba(0, 0, 0, 0.6)'
+  ctx.fillRect(x, y, w, h)
+  ctx.fillStyle = '#ffffff'
+  ctx.font = PANEL_FONT
+  ctx.textBaseline = 'top'
+  ctx.fillText(exercise.name, x + 10, y + 8)
+  ctx.font = SMALL_FONT
+  const status = !state.visible
+    ? 'Move into view'
+    : state.phase === 'hold'
+      ? `Hold… ${Math.max(0, Math.ceil(exercise.holdS - state.heldMs / 1000))} s`
+      : state.phase === 'release' ? 'Relax' : 'Move into position'
+  ctx.fillText(`Rep ${Math.min(state.rep + 1, exercise.reps)} of ${exercise.reps} · ${status}`, x + 10, y + 32)
+
+  const barY = y + 56
+  const holding = state.phase === 'hold'
+  const fill = holding ? state.heldMs / (exercise.holdS * 1000) : state.phase === 'release' ? 1 : state.progress
+  ctx.fillStyle = 'rgba(255, 255, 255, 0.25)'
+  ctx.fillRect(x + 10, barY, w - 20, 8)
+  ctx.fillStyle = holding || state.phase === 'release' ? '#22c55e' : '#f59e0b'
+  ctx.fillRect(x + 10, barY, (w - 20) * clamp01(fill), 8)
+  ctx.restore()
+}
+
+/**
+ * Hook: useStretchRoutine
+ * Runs a StretchRoutine while `active`, fed with landmarks through usePostureMonitor's
+ * `onLandmarks`; pass `drawOverlay` as its `drawOverlayExtras` to show progress on the video.
+ */
+export function useStretchRoutine(active: boolean, exercises: StretchExercise[] = DEFAULT_STRETCHES) {
+  const routineRef = useRef<StretchRoutine | null>(null)
+  const stateRef = useRef<StretchState | null>(null)
+  const [state, setState] = useState<StretchState | null>(null)
+  const exercisesRef = useRef(exercises)
+  exercisesRef.current = exercises
+
+  // A fresh routine each time stretching starts
+  useEffect(() => {
+    routineRef.current = active ? new StretchRoutine(exercisesRef.current) : null
+    stateRef.current = routineRef.current?.state ?? null
+    setState(stateRef.current)
+  }, [active])
+
+  const handleLandmarks = useCallback((lm: Landmark[] | null, ts: number) => {
+    const routine = routineRef.current
+    if (!routine) return
+    const next = routine.update(lm, ts)
+    stateRef.current = next
+    setState(prev => (prev && JSON.stringify(prev) === JSON.stringify(next) ? prev : next))
+  }, [])
+
+  const skipExercise = useCallback(() => {
+    if (!routineRef.current) return
+    stateRef.current = routineRef.current.skip()
+    setState(stateRef.current)
+  }, [])
+
+  const drawOverlay = useCallback((ctx: CanvasRenderingContext2D) => {
+    if (stateRef.current) drawStretchProgress(ctx, stateRef.current)
+  }, [])
+
+  return { stretchState: state, handleLandmarks, skipExercise, drawOverlay }
+}
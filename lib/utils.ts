@@ -4,3 +4,13 @@ import { twMerge } from "tailwind-merge"
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
+
+// Triggers a browser download of in-memory text content
+export function downloadFile(filename: string, content: string, type = "application/json") {
+  const url = URL.createObjectURL(new Blob([content], { type }))
+  const a = document.createElement("a")
+  a.href = url
+  a.download = filename
+  a.click()
+  URL.revokeObjectURL(url)
+}
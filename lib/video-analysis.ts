@@ -0,0 +1,103 @@
+// Offline analysis of a local video file: seeks through the clip frame-by-frame and
+// runs each frame through a PoseDetector + PostureEngine, as fast as inference allows.
+
+import { keyPointsVisible, resolveOrientation, type PostureEngine } from "@/lib/posture-engine"
+import type { PoseDetector } from "@/lib/pose-detector"
+
+export type TimelinePoint = {
+  time: number // seconds into the clip
+  score: number
+  warnings: string[]
+}
+
+export type FlaggedMoment = {
+  time: number
+  end: number
+  warnings: string[]
+}
+
+export type VideoAnalysisState = {
+  running: boolean
+  progress: number // 0–1
+  duration: number
+  points: TimelinePoint[]
+  error: string | null
+}
+
+const seek = (video: HTMLVideoElement, time: number) =>
+  new Promise<void>((resolve, reject) => {
+    const onSeeked = () => { cleanup(); resolve() }
+    const onError = () => { cleanup(); reject(new Error('Video seek failed')) }
+    const cleanup = () => {
+      video.removeEventListener('seeked', onSeeked)
+      video.removeEventListener('error', onError)
+    }
+    video.addEventListener('seeked', onSeeked)
+    video.addEventListener('error', onError)
+    video.currentTime = time
+  })
+
+export const waitForMetadata = (video: HTMLVideoElement) =>
+  new Promise<void>((resolve, reject) => {
+    if (video.readyState >= 1) return resolve()
+    video.addEventListener('loadedmetadata', () => resolve(), { once: true })
+    video.addEventListener('error', () => reject(new Error('Could not load video file')), { once: true })
+  })
+
+/**
+ * Steps through `video` at `fps` samples per second of clip time. If the engine has
+ * no baseline yet, the first frame with all key points visible is used as the baseline.
+ */
+export async function analyzeVideo(
+  video: HTMLVideoElement,
+  detector: PoseDetector,
+  engine: PostureEngine,
+  opts: {
+    fps?: number
+    signal?: { cancelled: boolean }
+    onProgress?: (progress: number, points: TimelinePoint[]) => void
+  } = {}
+): Promise<TimelinePoint[]> {
+  await waitForMetadata(video)
+  const duration = video.duration
+  if (!Number.isFinite(duration) || duration <= 0) throw new Error('Video duration is unknown')
+
+  const step = 1 / (opts.fps ?? 30)
+  const points: TimelinePoint[] = []
+  for (let t = 0; t < duration; t += step) {
+    if (opts.signal?.cancelled) break
+    await seek(video, t)
+    const { landmarks: lm } = await detector.detect(video, t * 1000)
+    if (lm && !engine.baseline && keyPointsVisible(lm, resolveOrientation(engine.orientation, lm))) engine.captureBaseline(lm)
+    const result = engine.process(lm, t * 1000)
+    if (result.presence === 'present') points.push({ time: t, score: result.score, warnings: result.warnings.map(w => w.label) })
+    opts.onProgress?.(Math.min(1, (t + step) / duration), points)
+  }
+  return points
+}
+
+// Collapses consecutive warning frames into moments the user can seek to
+export function flaggedMoments(points: TimelinePoint[]): FlaggedMoment[] {
+  const moments: FlaggedMoment[] = []
+  let current: FlaggedMoment | null = null
+  points.forEach(p => {
+    if (p.warnings.length === 0) {
+      current = null
+      return
+    }
+    if (!current) {
+      current = { time: p.time, end: p.time, warnings: [...p.warnings] }
+      moments.push(current)
+      return
+    }
+    current.end = p.time
+    p.warnings.forEach(w => { if (!current!.warnings.includes(w)) current!.warnings.push(w) })
+  })
+  return moments
+}
+
+export const formatClipTime = (seconds: number) => {
+  const m = Math.floor(seconds / 60)
+  const s = Math.floor(seconds % 60)
+  return `${m}:${s.toString().padStart(2, '0')}`
+}
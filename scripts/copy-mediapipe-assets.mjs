@@ -0,0 +1,65 @@
+// Copies the MediaPipe WASM / model assets out of node_modules into public/mediapipe so the
+// app serves them itself and works without access to cdn.jsdelivr.net.
+//
+// The PoseLandmarker .task model is not published to npm. It is downloaded once if missing;
+// on an offline machine, place pose_landmarker_full.task in public/mediapipe/models/ by hand.
+// Without it the 'auto' backend falls back to the legacy solution and the 'tasks' backend fails.
+
+import { copyFile, mkdir, readdir, stat, writeFile } from "node:fs/promises"
+import { dirname, join } from "node:path"
+import { fileURLToPath } from "node:url"
+
+const root = join(dirname(fileURLToPath(import.meta.url)), "..")
+const out = join(root, "public", "mediapipe")
+
+const MODEL_URL =
+  "https://storage.googleapis.com/mediapipe-models/pose_landmarker/pose_landmarker_full/float16/1/pose_landmarker_full.task"
+// The model is ~9 MB; give up rather than hang a build on a stalled connection
+const MODEL_DOWNLOAD_TIMEOUT_MS = 60_000
+
+async function copyDir(from, to, filter = () => true) {
+  await mkdir(to, { recursive: true })
+  const files = (await readdir(from)).filter(filter)
+  await Promise.all(files.map(f => copyFile(join(from, f), join(to, f))))
+  return files.length
+}
+
+async function exists(path) {
+  try {
+    await stat(path)
+    return true
+  } catch {
+    return false
+  }
+}
+
+const legacy = await copyDir(
+  join(root, "node_modules", "@mediapipe", "pose"),
+  join(out, "pose"),
+  f => !/\.(md|d\.ts)$/.test(f) && f !== "package.json"
+)
+const tasks = await copyDir(
+  join(root, "node_modules", "@mediapipe", "tasks-vision", "wasm"),
+  join(out, "tasks-vision", "wasm")
+)
+console.log(`mediapipe assets: copied ${legacy} legacy pose files and ${tasks} tasks-vision wasm files`)
+
+const modelPath = join(out, "models", "pose_landmarker_full.task")
+if (!(await exists(modelPath))) {
+  try {
+    const res = await fetch(MODEL_URL, { signal: AbortSignal.timeout(MODEL_DOWNLOAD_TIMEOUT_MS) })
+    if (!res.ok) throw new Error(`HTTP ${res.status}`)
+    await mkdir(dirname(modelPath), { recursive: true })
+    await writeFile(modelPath, Buffer.from(await res.arrayBuffer()))
+    console.log("mediapipe assets: downloaded pose_landmarker_full.task")
+  } catch (e) {
+    // Not fatal: the legacy backend still works from the copied files
+    console.warn("")
+    console.warn("!! mediapipe assets: PoseLandmarker model MISSING !!")
+    console.warn(`  Could not download it (${e.name === "TimeoutError" ? "timed out" : e.message}).`)
+    console.warn("  This build will fall back to the legacy pose detector, and the 'tasks' backend will not load.")
+    console.warn(`  Download ${MODEL_URL}`)
+    console.warn("  and save it as public/mediapipe/models/pose_landmarker_full.task, then rebuild.")
+    console.warn("")
+  }
+}